@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { CommentPriority, CommentStatus, LocalComment } from './commentManager';
+
+export interface Appearance {
+    color: string; // CSS 颜色，用于行尾注释文字
+    icon: string; // 显示在注释前的文字或 emoji
+}
+
+export const STATUSES: CommentStatus[] = ['note', 'todo', 'question', 'done'];
+export const PRIORITIES: CommentPriority[] = ['high', 'medium', 'low'];
+
+export const STATUS_LABELS: Record<CommentStatus, string> = {
+    note: '笔记',
+    todo: '待办',
+    question: '疑问',
+    done: '已完成'
+};
+
+export const PRIORITY_LABELS: Record<CommentPriority, string> = {
+    high: '高',
+    medium: '中',
+    low: '低'
+};
+
+// 与 package.json 中配置项的默认值保持一致，用户只覆盖部分字段时用它补齐
+const DEFAULT_STATUS_APPEARANCE: Record<CommentStatus, Appearance> = {
+    note: { color: '#888888', icon: '💬' },
+    todo: { color: '#D7A017', icon: '📌' },
+    question: { color: '#3794FF', icon: '❓' },
+    done: { color: '#6A9955', icon: '✅' }
+};
+
+const DEFAULT_PRIORITY_APPEARANCE: Record<CommentPriority, Appearance> = {
+    high: { color: '#F14C4C', icon: '🔴' },
+    medium: { color: '#D7A017', icon: '🟠' },
+    low: { color: '#3794FF', icon: '🔵' }
+};
+
+// 树视图中使用的状态图标（codicon）
+export const STATUS_THEME_ICONS: Record<CommentStatus, string> = {
+    note: 'comment',
+    todo: 'circle-large-outline',
+    question: 'question',
+    done: 'pass-filled'
+};
+
+export function getStatus(comment: LocalComment): CommentStatus {
+    return comment.status || 'note';
+}
+
+export function getStatusAppearance(status: CommentStatus): Appearance {
+    const configured = vscode.workspace.getConfiguration('localComment').get<Record<string, Partial<Appearance>>>('appearance.status', {});
+    return { ...DEFAULT_STATUS_APPEARANCE[status], ...configured[status] };
+}
+
+export function getPriorityAppearance(priority: CommentPriority): Appearance {
+    const configured = vscode.workspace.getConfiguration('localComment').get<Record<string, Partial<Appearance>>>('appearance.priority', {});
+    return { ...DEFAULT_PRIORITY_APPEARANCE[priority], ...configured[priority] };
+}
+
+/**
+ * 分类由用户自定义，未配置外观的分类只显示名称
+ */
+export function getCategoryAppearance(category: string): Partial<Appearance> {
+    const configured = vscode.workspace.getConfiguration('localComment').get<Record<string, Partial<Appearance>>>('appearance.categories', {});
+    return configured[category] || {};
+}
+
+/**
+ * 已配置外观的分类与注释中已使用的分类的并集，用于选择分类
+ */
+export function getKnownCategories(allComments: LocalComment[]): string[] {
+    const configured = vscode.workspace.getConfiguration('localComment').get<Record<string, Partial<Appearance>>>('appearance.categories', {});
+    const categories = new Set(Object.keys(configured));
+    for (const comment of allComments) {
+        if (comment.category) {
+            categories.add(comment.category);
+        }
+    }
+    return [...categories].sort();
+}
+
+/**
+ * 注释前缀：状态图标，加上优先级与分类的图标（如果有）
+ */
+export function getCommentPrefix(comment: LocalComment): string {
+    let prefix = getStatusAppearance(getStatus(comment)).icon;
+    if (comment.priority) {
+        prefix += getPriorityAppearance(comment.priority).icon;
+    }
+    if (comment.category) {
+        const categoryAppearance = getCategoryAppearance(comment.category);
+        prefix += categoryAppearance.icon ? categoryAppearance.icon : ` [${comment.category}]`;
+    }
+    return prefix;
+}
+
+/**
+ * 行尾注释的文字颜色：已完成的注释使用状态颜色，其余依次取分类、优先级、状态中最具体的一个
+ */
+export function getCommentColor(comment: LocalComment): string {
+    const status = getStatus(comment);
+    const statusColor = getStatusAppearance(status).color;
+    if (status === 'done') {
+        return statusColor;
+    }
+    const categoryColor = comment.category ? getCategoryAppearance(comment.category).color : undefined;
+    const priorityColor = comment.priority ? getPriorityAppearance(comment.priority).color : undefined;
+    return categoryColor || priorityColor || statusColor;
+}
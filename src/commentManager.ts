@@ -2,7 +2,13 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { CommentMatcher } from './commentMatcher';
+import {
+    AnchorCandidate, CONTEXT_LINES, CommentMatcher, LineSource, MatchTrace, captureContext, captureRangeContent, createLineSource
+} from './commentMatcher';
+import { CommentStorage, StoragePayload } from './commentStorage';
+import { mergeStoragePayloads } from './commentMerge';
+import { MigrationContext, ProjectMetadata } from './storageMigrations';
+import { guessLanguageId } from './core/lineNormalizer';
 
 export interface LocalComment {
     id: string;
@@ -12,100 +18,498 @@ export interface LocalComment {
     originalLine: number; // 原始行号，用于跟踪位置变化
     lineContent: string; // 该行的内容，用于智能定位
     isMatched?: boolean; // 标记注释是否匹配到代码
+    archivedAt?: number; // 所在文件被删除后归档的时间
+    range?: CommentRange; // 注释覆盖的代码范围，单行注释没有该字段
+    rangeContent?: string[]; // 范围内每一行的内容快照，匹配时作为整体定位
+    contextBefore?: string[]; // 锚定代码上方相邻几行的快照，由近到远排列，用于区分内容相同的行
+    contextAfter?: string[]; // 锚定代码下方相邻几行的快照，由近到远排列
+    replies?: CommentReply[]; // 对该注释的回复，按时间顺序排列
+    status?: CommentStatus; // 注释状态，没有该字段视为 note
+    priority?: CommentPriority;
+    category?: string; // 用户自定义的分类
+}
+
+export type CommentStatus = 'note' | 'todo' | 'question' | 'done';
+
+export type CommentPriority = 'high' | 'medium' | 'low';
+
+/**
+ * 可以通过 setCommentAttributes 修改的注释属性，值为 undefined 表示清除该属性
+ */
+export interface CommentAttributes {
+    status?: CommentStatus;
+    priority?: CommentPriority;
+    category?: string;
+}
+
+export interface CommentReply {
+    id: string;
+    content: string;
+    timestamp: number;
+}
+
+/**
+ * 注释覆盖的代码范围，startLine 始终与注释的 line 一致
+ */
+export interface CommentRange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
 }
 
 export interface FileComments {
     [filePath: string]: LocalComment[];
 }
 
+export type ImportConflictStrategy = 'keepMine' | 'keepTheirs' | 'keepBoth';
+
+export interface ImportResult {
+    added: number;
+    replaced: number;
+    duplicated: number;
+    skipped: number;
+    files: string[]; // 有注释被导入的文件
+}
+
+/**
+ * 对一条注释或回复内容的修改
+ */
+export interface ContentEdit {
+    filePath: string;
+    commentId: string;
+    replyId?: string; // 修改回复时为回复 ID
+    content: string; // 修改后的完整内容
+}
+
+export interface ReconcileResult {
+    moved: { comment: LocalComment; from: number }[]; // 移动了位置的注释及原来的行号
+    lost: LocalComment[]; // 无法匹配的注释
+}
+
+/**
+ * 打开的文档的匹配结果缓存，文档版本与注释锚点都没有变化时直接复用
+ */
+interface MatchCacheEntry {
+    version: number; // 文档版本
+    signature: string; // 计算时注释锚点的签名，注释被增删或重新定位后不再一致
+    results: Map<string, number>; // 注释ID -> 匹配的行号，-1 表示无法匹配
+    dirty: Set<string>; // 编辑后需要重新匹配的注释
+}
+
 export class CommentManager {
     private comments: FileComments = {};
-    private storageFile: string;
+    private archived: FileComments = {}; // 已删除文件的注释，可恢复或清除
+    private storageFiles: Map<string, string> = new Map(); // 工作区文件夹URI -> 存储文件路径
+    private defaultStorageFile: string; // 无工作区时使用的全局存储文件
+    private storage: CommentStorage; // 负责原子写入、备份、版本迁移与损坏隔离
+    private projectMetadata: Map<string, ProjectMetadata> = new Map(); // 存储文件 -> 项目元数据
     private context: vscode.ExtensionContext;
-    private updateTimer: NodeJS.Timeout | null = null; // 防抖定时器
-    private pendingUpdates: Set<string> = new Set(); // 待更新的文件路径
-    private _hasKeyboardActivity = false; // 记录键盘活动状态
+    private saveTimer: NodeJS.Timeout | null = null; // 编辑时合并保存的防抖定时器
     private commentMatcher: CommentMatcher; // 注释匹配器
+    private matchCache: Map<string, MatchCacheEntry> = new Map(); // 文件路径 -> 匹配结果缓存
+    private unmatchedCache: Map<string, { key: string; unmatched: LocalComment[] }> = new Map(); // 文件路径 -> 上次查找时无法匹配的注释
+    // 锚定代码被整块替换、新位置还没有通过内容匹配确认的注释 -> 最后确认的位置，确认之前按该位置保存
+    private unconfirmedAnchors: Map<string, { line: number; range?: CommentRange }> = new Map();
+    private syncTimers: Map<string, NodeJS.Timeout> = new Map(); // 存储文件 -> 外部修改同步的防抖定时器
+    private _onDidChangeComments = new vscode.EventEmitter<void>();
+    readonly onDidChangeComments: vscode.Event<void> = this._onDidChangeComments.event; // 注释数据被整体替换（如从备份恢复）时触发
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
-        this.storageFile = this.getProjectStorageFile(context);
+        this.defaultStorageFile = path.join(this.getGlobalStorageDir(), 'local-comments.json');
         this.commentMatcher = new CommentMatcher(); // 实例化注释匹配器
+        this.storage = new CommentStorage(() =>
+            vscode.workspace.getConfiguration('localComment').get<number>('storage.backupCount', 10)
+        );
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            this.storageFiles.set(folder.uri.toString(), this.getProjectStorageFile(folder));
+        }
         this.loadComments();
         
-        // 监听工作区变化，重新加载注释数据
-        const workspaceWatcher = vscode.workspace.onDidChangeWorkspaceFolders(() => {
-            this.handleWorkspaceChange();
+        // 监听工作区文件夹增减，只加载或卸载变化的文件夹
+        const workspaceWatcher = vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+            this.handleWorkspaceChange(event);
+        });
+        
+        // 跟随文件的重命名、移动与删除
+        const renameWatcher = vscode.workspace.onDidRenameFiles((event) => {
+            this.handleFilesRenamed(event.files);
+        });
+        const deleteWatcher = vscode.workspace.onDidDeleteFiles((event) => {
+            this.handleFilesDeleted(event.files);
+        });
+        
+        // 监听其他窗口（或远程会话）对存储文件的修改，自己写入的变化会按修改时间被忽略
+        const storageWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(this.getGlobalStorageDir()), '{local-comments.json,projects/*.json}')
+        );
+        storageWatcher.onDidChange(uri => this.scheduleExternalSync(uri.fsPath));
+        storageWatcher.onDidCreate(uri => this.scheduleExternalSync(uri.fsPath));
+
+        // 匹配设置变化后所有缓存的匹配结果都需要重新计算
+        const configWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('localComment.matching')) {
+                this.matchCache.clear();
+            }
         });
         
-        context.subscriptions.push(workspaceWatcher);
+        context.subscriptions.push(workspaceWatcher, renameWatcher, deleteWatcher, storageWatcher, configWatcher, this._onDidChangeComments);
     }
 
     /**
-     * 处理工作区变化
+     * 存储文件的变化事件往往成批到达（临时文件重命名），稍等片刻再合并
      */
-    private async handleWorkspaceChange(): Promise<void> {
-        // 保存当前注释数据
-        await this.saveComments();
+    private scheduleExternalSync(storageFile: string): void {
+        if (!this.getActiveStorageFiles().includes(storageFile)) {
+            return;
+        }
+
+        const existingTimer = this.syncTimers.get(storageFile);
+        if (existingTimer) {
+            clearTimeout(existingTimer);
+        }
+        this.syncTimers.set(storageFile, setTimeout(() => {
+            this.syncTimers.delete(storageFile);
+            this.syncExternalChanges(storageFile);
+        }, 300));
+    }
+
+    /**
+     * 将其他窗口写入存储文件的修改合并到内存中，合并结果包含本窗口未保存的修改时再写回
+     */
+    private syncExternalChanges(storageFile: string): void {
+        if (!this.storage.isModifiedExternally(storageFile)) {
+            return;
+        }
+
+        try {
+            const merged = this.writeStorageFile(storageFile, this.getStoragePartition(storageFile));
+            if (merged) {
+                this.replaceStorageContent(storageFile, merged);
+                this._onDidChangeComments.fire();
+                console.log(`🔄 已合并其他窗口对 ${path.basename(storageFile)} 的修改`);
+            }
+        } catch (error) {
+            console.error('同步外部修改失败:', error);
+        }
+    }
+
+    /**
+     * 当前正在使用的存储文件：每个工作区文件夹一个，没有工作区时为全局存储
+     */
+    private getActiveStorageFiles(): string[] {
+        return this.storageFiles.size > 0 ? [...this.storageFiles.values()] : [this.defaultStorageFile];
+    }
+
+    /**
+     * 取出内存中属于指定存储文件的注释（不移除）
+     */
+    private getStoragePartition(storageFile: string): StoragePayload {
+        const partition: StoragePayload = { comments: {}, archived: {} };
+        for (const section of ['comments', 'archived'] as const) {
+            for (const [filePath, comments] of Object.entries(this[section])) {
+                if (this.getStorageFileForPath(filePath) === storageFile) {
+                    partition[section][filePath] = comments;
+                }
+            }
+        }
+        return partition;
+    }
+
+    /**
+     * 用新内容替换内存中属于指定存储文件的注释
+     */
+    private replaceStorageContent(storageFile: string, payload: StoragePayload): void {
+        for (const fileComments of [this.comments, this.archived]) {
+            for (const filePath of Object.keys(fileComments)) {
+                if (this.getStorageFileForPath(filePath) === storageFile) {
+                    delete fileComments[filePath];
+                }
+            }
+        }
+        this.mergePayload(payload);
+    }
+
+    /**
+     * 处理工作区文件夹变化：新增的文件夹加载其注释，移除的文件夹先保存再卸载
+     */
+    private async handleWorkspaceChange(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+        for (const folder of event.removed) {
+            const folderKey = folder.uri.toString();
+            const storageFile = this.storageFiles.get(folderKey);
+            if (!storageFile) {
+                continue;
+            }
+
+            // 文件夹已从工作区移除，getWorkspaceFolder 无法再定位这些文件，只能按路径前缀划分
+            const folderPayload: StoragePayload = {
+                comments: this.takeFilesInside(this.comments, folder.uri.fsPath),
+                archived: this.takeFilesInside(this.archived, folder.uri.fsPath)
+            };
+
+            this.writeStorageFile(storageFile, folderPayload);
+            this.storageFiles.delete(folderKey);
+            this.storage.invalidate(storageFile);
+            console.log(`工作区文件夹 ${folder.name} 已移除，卸载 ${Object.keys(folderPayload.comments).length} 个文件的注释`);
+        }
+
+        if (this.storageFiles.size === 0 && event.added.length > 0) {
+            // 从无工作区切换到有工作区：全局存储中的注释不属于任何文件夹，先写回再卸载
+            this.writeStorageFile(this.defaultStorageFile, { comments: this.comments, archived: this.archived });
+            this.comments = {};
+            this.archived = {};
+        }
+
+        for (const folder of event.added) {
+            const storageFile = this.getProjectStorageFile(folder);
+            this.storageFiles.set(folder.uri.toString(), storageFile);
+            const folderPayload = this.readStorageFile(storageFile);
+            this.mergePayload(folderPayload);
+            console.log(`工作区文件夹 ${folder.name} 已添加，加载 ${Object.keys(folderPayload.comments).length} 个文件的注释`);
+        }
+
+        if (this.storageFiles.size === 0) {
+            // 所有文件夹都已移除，回退到全局存储
+            this.mergePayload(this.readStorageFile(this.defaultStorageFile));
+        }
+
+        console.log('工作区文件夹已变化，注释数据已增量更新');
+    }
+
+    private getGlobalStorageDir(): string {
+        return this.context.globalStorageUri?.fsPath || this.context.extensionPath;
+    }
+
+    /**
+     * 根据工作区文件夹生成该文件夹专属的存储文件路径
+     */
+    private getProjectStorageFile(folder: vscode.WorkspaceFolder): string {
+        const workspacePath = folder.uri.fsPath;
         
-        // 更新存储文件路径
-        this.storageFile = this.getProjectStorageFile(this.context);
+        // 创建工作区路径的哈希值作为文件名
+        const pathHash = crypto.createHash('md5').update(workspacePath).digest('hex');
+        const projectName = path.basename(workspacePath);
         
-        // 重新加载新工作区的注释数据
-        await this.loadComments();
+        // 确保项目存储目录存在
+        const projectStorageDir = path.join(this.getGlobalStorageDir(), 'projects');
+        if (!fs.existsSync(projectStorageDir)) {
+            fs.mkdirSync(projectStorageDir, { recursive: true });
+        }
         
-        console.log('工作区已切换，注释数据已重新加载');
+        return path.join(projectStorageDir, `${projectName}-${pathHash}.json`);
     }
 
     /**
-     * 根据当前工作区生成项目特定的存储文件路径
+     * 获取文件注释应写入的存储文件
+     * 
+     * 通过 getWorkspaceFolder 定位文件所属的工作区文件夹；不属于任何文件夹的文件
+     * 落到第一个文件夹的存储中，没有工作区时使用全局存储（向后兼容）
      */
-    private getProjectStorageFile(context: vscode.ExtensionContext): string {
-        const globalStorageDir = context.globalStorageUri?.fsPath || context.extensionPath;
-        
-        // 获取当前工作区的根路径
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            // 使用第一个工作区文件夹路径
-            const workspacePath = workspaceFolders[0].uri.fsPath;
-            
-            // 创建工作区路径的哈希值作为文件名
-            const pathHash = crypto.createHash('md5').update(workspacePath).digest('hex');
-            const projectName = path.basename(workspacePath);
-            
-            // 确保项目存储目录存在
-            const projectStorageDir = path.join(globalStorageDir, 'projects');
-            if (!fs.existsSync(projectStorageDir)) {
-                fs.mkdirSync(projectStorageDir, { recursive: true });
+    private getStorageFileForPath(filePath: string): string {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (folder) {
+            const storageFile = this.storageFiles.get(folder.uri.toString());
+            if (storageFile) {
+                return storageFile;
+            }
+        }
+
+        const firstStorageFile = this.storageFiles.values().next().value;
+        return firstStorageFile || this.defaultStorageFile;
+    }
+
+    private isPathInside(filePath: string, folderPath: string): boolean {
+        const relative = path.relative(folderPath, filePath);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    /**
+     * 取出并移除位于指定文件夹内的文件记录
+     */
+    private takeFilesInside(fileComments: FileComments, folderPath: string): FileComments {
+        const taken: FileComments = {};
+        for (const filePath of Object.keys(fileComments)) {
+            if (this.isPathInside(filePath, folderPath)) {
+                taken[filePath] = fileComments[filePath];
+                delete fileComments[filePath];
             }
-            
-            return path.join(projectStorageDir, `${projectName}-${pathHash}.json`);
-        } else {
-            // 如果没有工作区，使用默认的全局存储（向后兼容）
-            return path.join(globalStorageDir, 'local-comments.json');
         }
+        return taken;
+    }
+
+    private mergePayload(payload: StoragePayload): void {
+        Object.assign(this.comments, payload.comments);
+        Object.assign(this.archived, payload.archived);
     }
 
     private async loadComments(): Promise<void> {
+        this.comments = {};
+        this.archived = {};
+
+        if (this.storageFiles.size === 0) {
+            this.mergePayload(this.readStorageFile(this.defaultStorageFile));
+            return;
+        }
+
+        // 保存会创建缺失的存储文件，必须在写入之前判断
+        const hasProjectFile = Array.from(this.storageFiles.values()).some(file => fs.existsSync(file));
+
+        let migrated = false;
+        for (const storageFile of this.storageFiles.values()) {
+            const payload = this.readStorageFile(storageFile);
+            this.mergePayload(payload);
+            migrated = migrated || !!payload.migrated;
+        }
+
+        // 如果所有项目特定的文件都不存在，尝试迁移旧数据
+        if (!hasProjectFile) {
+            await this.tryMigrateOldData();
+            return;
+        }
+
+        // 读取时执行了版本迁移的文件统一写回
+        if (migrated) {
+            await this.saveComments();
+        }
+    }
+
+    /**
+     * 读取单个存储文件，文件不存在时返回空对象
+     * 
+     * 存储文件中的键是相对于工作区文件夹的路径，读取后转换为绝对路径供内存使用。
+     * 文件损坏时会被隔离，并提示用户从最近的有效备份恢复，而不是静默地从空数据开始。
+     * 执行了版本迁移时 migrated 为 true，需要写回
+     */
+    private readStorageFile(storageFile: string): StoragePayload & { migrated?: boolean } {
         try {
-            // 确保存储目录存在
-            const storageDir = path.dirname(this.storageFile);
-            if (!fs.existsSync(storageDir)) {
-                fs.mkdirSync(storageDir, { recursive: true });
+            const result = this.storage.read(storageFile, this.getMigrationContext(storageFile));
+            if (result.status === 'corrupt') {
+                this.offerBackupRestore(storageFile, result.quarantinedFile!);
+                return { comments: {}, archived: {} };
             }
-
-            if (fs.existsSync(this.storageFile)) {
-                const data = fs.readFileSync(this.storageFile, 'utf8');
-                this.comments = JSON.parse(data);
-            } else {
-                // 如果项目特定的文件不存在，尝试迁移旧数据
-                this.comments = {};
-                await this.tryMigrateOldData();
+            if (result.project) {
+                this.projectMetadata.set(storageFile, result.project);
             }
+
+            return { ...this.resolveStoredPayload(storageFile, result.data), migrated: result.migrated };
         } catch (error) {
             console.error('加载注释失败:', error);
-            this.comments = {};
+            return { comments: {}, archived: {} };
+        }
+    }
+
+    /**
+     * 存储文件的迁移上下文：所属工作区文件夹及项目名称
+     */
+    private getMigrationContext(storageFile: string): MigrationContext {
+        const folderPath = this.getFolderPathForStorageFile(storageFile);
+        return {
+            folderPath,
+            projectName: folderPath ? path.basename(folderPath) : path.basename(storageFile, '.json')
+        };
+    }
+
+    /**
+     * 存储文件损坏时提示用户从最近的有效备份恢复
+     */
+    private async offerBackupRestore(storageFile: string, quarantinedFile: string): Promise<void> {
+        const latestBackup = this.listBackups(storageFile)[0];
+        const message = `本地注释文件 ${path.basename(storageFile)} 已损坏，已隔离为 ${path.basename(quarantinedFile)}。`;
+
+        if (!latestBackup) {
+            vscode.window.showErrorMessage(`${message}没有找到可用的备份。`);
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `${message}是否从 ${new Date(latestBackup.timestamp).toLocaleString()} 的备份恢复（${latestBackup.commentCount} 条注释）？`,
+            '从备份恢复', '暂不恢复'
+        );
+        if (choice === '从备份恢复') {
+            await this.restoreFromBackup(storageFile, latestBackup.file);
+            vscode.window.showInformationMessage('已从备份恢复本地注释');
+        }
+    }
+
+    /**
+     * 列出指定存储文件的备份快照
+     */
+    public listBackups(storageFile: string) {
+        return this.storage.listBackups(storageFile, this.getMigrationContext(storageFile));
+    }
+
+    /**
+     * 读取任意项目存储文件的概要信息（会按需迁移，但不改写文件）
+     */
+    public getProjectFileSummary(storageFile: string): { name: string; fileCount: number; commentCount: number } | undefined {
+        const envelope = this.storage.peek(storageFile, { projectName: path.basename(storageFile, '.json') });
+        if (!envelope) {
+            return undefined;
+        }
+        return {
+            name: envelope.project.name,
+            fileCount: Object.keys(envelope.comments).length,
+            commentCount: Object.values(envelope.comments).reduce((sum, comments) => sum + comments.length, 0)
+        };
+    }
+
+    /**
+     * 用备份快照替换存储文件，并重新加载该存储文件对应的注释
+     */
+    public async restoreFromBackup(storageFile: string, backupFile: string): Promise<void> {
+        // 先把内存中其他存储文件的修改落盘，再替换目标存储
+        await this.saveComments();
+        this.storage.restore(storageFile, backupFile);
+        this.replaceStorageContent(storageFile, this.readStorageFile(storageFile));
+        this._onDidChangeComments.fire();
+    }
+
+    private resolveStoredPayload(storageFile: string, stored: StoragePayload): StoragePayload {
+        const folderPath = this.getFolderPathForStorageFile(storageFile);
+        if (!folderPath) {
+            return stored;
+        }
+        return {
+            comments: this.resolveStorageKeys(stored.comments, folderPath),
+            archived: this.resolveStorageKeys(stored.archived, folderPath)
+        };
+    }
+
+    /**
+     * 将存储中的键（相对路径或工作区外的绝对路径）转换为绝对路径
+     */
+    private resolveStorageKeys(storedComments: FileComments, folderPath: string): FileComments {
+        const resolved: FileComments = {};
+        for (const [key, comments] of Object.entries(storedComments)) {
+            const filePath = path.isAbsolute(key) ? key : path.join(folderPath, ...key.split('/'));
+            resolved[filePath] = (resolved[filePath] || []).concat(comments);
+        }
+        return resolved;
+    }
+
+    /**
+     * 将绝对路径转换为存储键：工作区文件夹内的文件使用以 / 分隔的相对路径，
+     * 这样移动或重新克隆仓库后注释仍然可以对应上
+     */
+    private toStorageKey(filePath: string, folderPath: string | undefined): string {
+        if (folderPath && this.isPathInside(filePath, folderPath)) {
+            return path.relative(folderPath, filePath).split(path.sep).join('/');
+        }
+        return filePath;
+    }
+
+    /**
+     * 根据存储文件反查所属的工作区文件夹路径，全局存储返回 undefined
+     */
+    private getFolderPathForStorageFile(storageFile: string): string | undefined {
+        for (const [folderKey, file] of this.storageFiles) {
+            if (file === storageFile) {
+                return vscode.Uri.parse(folderKey).fsPath;
+            }
         }
+        return undefined;
     }
 
     /**
@@ -113,15 +517,15 @@ export class CommentManager {
      */
     private async tryMigrateOldData(): Promise<void> {
         try {
-            const globalStorageDir = this.context.globalStorageUri?.fsPath || this.context.extensionPath;
-            const oldStorageFile = path.join(globalStorageDir, 'local-comments.json');
-            
-            if (!fs.existsSync(oldStorageFile)) {
+            if (!fs.existsSync(this.defaultStorageFile)) {
                 return; // 没有旧数据需要迁移
             }
 
-            const oldData = fs.readFileSync(oldStorageFile, 'utf8');
-            const allComments: FileComments = JSON.parse(oldData);
+            const oldEnvelope = this.storage.peek(this.defaultStorageFile, { projectName: 'local-comments' });
+            if (!oldEnvelope) {
+                return;
+            }
+            const allComments = oldEnvelope.comments;
             
             // 获取当前工作区路径
             const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -129,19 +533,22 @@ export class CommentManager {
                 return; // 没有工作区，无法迁移
             }
             
-            const workspacePath = workspaceFolders[0].uri.fsPath;
             const projectComments: FileComments = {};
             
-            // 筛选出属于当前项目的注释
+            // 筛选出属于当前工作区任一文件夹的注释
             for (const [filePath, comments] of Object.entries(allComments)) {
-                if (filePath.startsWith(workspacePath)) {
+                if (workspaceFolders.some(folder => this.isPathInside(filePath, folder.uri.fsPath))) {
                     projectComments[filePath] = comments;
                 }
             }
             
-            // 如果有属于当前项目的注释，保存到项目特定文件
+            // 如果有属于当前项目的注释，保存到各文件夹的存储文件
             if (Object.keys(projectComments).length > 0) {
-                this.comments = projectComments;
+                for (const [filePath, comments] of Object.entries(projectComments)) {
+                    if (!this.comments[filePath]) {
+                        this.comments[filePath] = comments;
+                    }
+                }
                 await this.saveComments();
                 console.log(`已迁移 ${Object.keys(projectComments).length} 个文件的注释到项目存储`);
             }
@@ -151,20 +558,108 @@ export class CommentManager {
         }
     }
 
+    /**
+     * 按工作区文件夹拆分注释并分别写入各自的存储文件
+     */
     private async saveComments(): Promise<void> {
+        const partitions = new Map<string, StoragePayload>();
+        const getPartition = (storageFile: string): StoragePayload => {
+            if (!partitions.has(storageFile)) {
+                partitions.set(storageFile, { comments: {}, archived: {} });
+            }
+            return partitions.get(storageFile)!;
+        };
+
+        // 每个已知的存储文件都要写入，即使注释已被全部删除
+        if (this.storageFiles.size === 0) {
+            getPartition(this.defaultStorageFile);
+        }
+        for (const storageFile of this.storageFiles.values()) {
+            getPartition(storageFile);
+        }
+
+        for (const [filePath, comments] of Object.entries(this.comments)) {
+            getPartition(this.getStorageFileForPath(filePath)).comments[filePath] = comments.map(comment => this.withConfirmedAnchor(comment));
+        }
+        for (const [filePath, comments] of Object.entries(this.archived)) {
+            getPartition(this.getStorageFileForPath(filePath)).archived[filePath] = comments;
+        }
+
+        let mergedExternal = false;
+        for (const [storageFile, payload] of partitions) {
+            const merged = this.writeStorageFile(storageFile, payload);
+            if (merged) {
+                this.replaceStorageContent(storageFile, merged);
+                mergedExternal = true;
+            }
+        }
+        if (mergedExternal) {
+            this._onDidChangeComments.fire();
+        }
+    }
+
+    /**
+     * 新位置还没有确认的注释按最后确认的位置保存
+     */
+    private withConfirmedAnchor(comment: LocalComment): LocalComment {
+        const confirmed = this.unconfirmedAnchors.get(comment.id);
+        return confirmed ? { ...comment, line: confirmed.line, range: confirmed.range } : comment;
+    }
+
+    /**
+     * 写入存储文件；文件在上次同步后被其他窗口修改过时，先与对方的内容三方合并再写入
+     * @returns 发生合并时返回合并后的注释（绝对路径），调用方需要用它替换内存中的数据
+     */
+    private writeStorageFile(storageFile: string, payload: StoragePayload): StoragePayload | undefined {
         try {
-            const storageDir = path.dirname(this.storageFile);
-            if (!fs.existsSync(storageDir)) {
-                fs.mkdirSync(storageDir, { recursive: true });
+            const folderPath = this.getFolderPathForStorageFile(storageFile);
+            const now = Date.now();
+            const project = this.projectMetadata.get(storageFile) || {
+                name: this.getMigrationContext(storageFile).projectName,
+                createdAt: now,
+                updatedAt: now
+            };
+            project.rootPath = folderPath;
+            this.projectMetadata.set(storageFile, project);
+
+            let stored = this.toStoredPayload(storageFile, payload);
+            let merged = false;
+            if (this.storage.isModifiedExternally(storageFile)) {
+                const envelope = this.storage.peek(storageFile, this.getMigrationContext(storageFile));
+                if (envelope) {
+                    const theirs: StoragePayload = { comments: envelope.comments, archived: envelope.archived };
+                    stored = mergeStoragePayloads(this.storage.getSyncedPayload(storageFile), stored, theirs);
+                    // 以对方的内容为新的同步基准，合并结果与之相同时不必再写入
+                    this.storage.markSynced(storageFile, theirs);
+                    merged = true;
+                }
             }
-            
-            fs.writeFileSync(this.storageFile, JSON.stringify(this.comments, null, 2));
+
+            this.storage.write(storageFile, stored, project);
+            return merged ? this.resolveStoredPayload(storageFile, stored) : undefined;
         } catch (error) {
             console.error('保存注释失败:', error);
+            return undefined;
         }
     }
 
-    public async addComment(uri: vscode.Uri, line: number, content: string): Promise<void> {
+    private toStoredPayload(storageFile: string, payload: StoragePayload): StoragePayload {
+        const folderPath = this.getFolderPathForStorageFile(storageFile);
+        const toStored = (fileComments: FileComments): FileComments => {
+            const stored: FileComments = {};
+            for (const [filePath, comments] of Object.entries(fileComments)) {
+                stored[this.toStorageKey(filePath, folderPath)] = comments;
+            }
+            return stored;
+        };
+        return { comments: toStored(payload.comments), archived: toStored(payload.archived) };
+    }
+
+    /**
+     * 添加注释
+     * @param selection 非空的选区会作为注释覆盖的代码范围，注释锚定在选区的起始行
+     */
+    public async addComment(uri: vscode.Uri, line: number, content: string, selection?: vscode.Range): Promise<void> {
         const filePath = uri.fsPath;
         
         if (!this.comments[filePath]) {
@@ -173,6 +668,10 @@ export class CommentManager {
 
         // 获取当前行的内容用于智能定位
         const document = await vscode.workspace.openTextDocument(uri);
+        const range = selection && !selection.isEmpty ? this.normalizeSelection(document, selection) : undefined;
+        if (range) {
+            line = range.start.line;
+        }
         const lineContent = document.lineAt(line).text;
 
         const comment: LocalComment = {
@@ -183,17 +682,96 @@ export class CommentManager {
             originalLine: line,
             lineContent: lineContent.trim()
         };
-
-        // 检查是否已存在该行的注释，如果存在则替换
-        const existingIndex = this.comments[filePath].findIndex(c => c.line === line);
-        if (existingIndex >= 0) {
-            this.comments[filePath][existingIndex] = comment;
-        } else {
-            this.comments[filePath].push(comment);
+        if (range) {
+            this.setCommentRange(comment, document, range);
         }
+        this.captureContext(comment, document);
+
+        // 同一行可以有多条注释
+        this.comments[filePath].push(comment);
 
         await this.saveComments();
-        vscode.window.showInformationMessage(`已添加本地注释到第 ${line + 1} 行`);
+        vscode.window.showInformationMessage(range && range.end.line > line
+            ? `已添加本地注释到第 ${line + 1}-${range.end.line + 1} 行`
+            : `已添加本地注释到第 ${line + 1} 行`);
+    }
+
+    /**
+     * 记录注释覆盖的范围及范围内每一行的代码快照
+     */
+    private setCommentRange(comment: LocalComment, document: vscode.TextDocument, range: vscode.Range): void {
+        comment.range = {
+            startLine: range.start.line,
+            startCharacter: range.start.character,
+            endLine: range.end.line,
+            endCharacter: range.end.character
+        };
+        comment.rangeContent = captureRangeContent(document, comment.range.startLine, comment.range.endLine);
+    }
+
+    /**
+     * 整行选择时选区会结束在下一行行首，去掉这一行，避免把它算进注释范围
+     */
+    private normalizeSelection(document: vscode.TextDocument, selection: vscode.Range): vscode.Range {
+        if (selection.end.character === 0 && selection.end.line > selection.start.line) {
+            const endLine = selection.end.line - 1;
+            return new vscode.Range(selection.start, new vscode.Position(endLine, document.lineAt(endLine).text.length));
+        }
+        return selection;
+    }
+
+    /**
+     * 记录锚定代码上下各 CONTEXT_LINES 行的快照，文件开头或结尾处不足时只记录存在的行
+     * @returns 快照是否发生了变化
+     */
+    private captureContext(comment: LocalComment, document: LineSource): boolean {
+        const endLine = comment.range ? comment.range.endLine : comment.line;
+        const { contextBefore, contextAfter } = captureContext(document, comment.line, endLine);
+
+        if (JSON.stringify(contextBefore) === JSON.stringify(comment.contextBefore || []) &&
+            JSON.stringify(contextAfter) === JSON.stringify(comment.contextAfter || [])) {
+            return false;
+        }
+        comment.contextBefore = contextBefore;
+        comment.contextAfter = contextAfter;
+        return true;
+    }
+
+    /**
+     * 将注释移动到确认的新起始行，范围注释整体平移
+     */
+    private moveComment(comment: LocalComment, line: number): void {
+        this.unconfirmedAnchors.delete(comment.id);
+        if (comment.range) {
+            const offset = line - comment.range.startLine;
+            comment.range = {
+                ...comment.range,
+                startLine: comment.range.startLine + offset,
+                endLine: comment.range.endLine + offset
+            };
+        }
+        comment.line = line;
+    }
+
+    /**
+     * 用文档当前内容刷新注释的代码快照及上下文
+     * @returns 快照是否发生了变化
+     */
+    private refreshSnapshot(comment: LocalComment, document: LineSource): boolean {
+        let changed = this.captureContext(comment, document);
+        const currentLineContent = document.lineAt(comment.line).text.trim();
+        if (currentLineContent !== (comment.lineContent || '').trim()) {
+            comment.lineContent = currentLineContent;
+            changed = true;
+        }
+        if (comment.range) {
+            const rangeContent = captureRangeContent(document, comment.range.startLine, comment.range.endLine);
+            if (JSON.stringify(rangeContent) !== JSON.stringify(comment.rangeContent)) {
+                comment.rangeContent = rangeContent;
+                changed = true;
+            }
+        }
+        return changed;
     }
 
     public async editComment(uri: vscode.Uri, commentId: string, newContent: string): Promise<void> {
@@ -204,414 +782,927 @@ export class CommentManager {
             return;
         }
 
-        const commentIndex = this.comments[filePath].findIndex(c => c.id === commentId);
-        if (commentIndex === -1) {
-            vscode.window.showWarningMessage('找不到指定的注释');
-            return;
+        if (!this.comments[filePath].some(c => c.id === commentId)) {
+            vscode.window.showWarningMessage('找不到指定的注释');
+            return;
+        }
+
+        // 与批量修改共用同一条路径，内容和时间戳一起更新
+        await this.editContents([{ filePath, commentId, content: newContent }]);
+        vscode.window.showInformationMessage('注释已更新');
+    }
+
+    public getCommentById(uri: vscode.Uri, commentId: string): LocalComment | undefined {
+        const filePath = uri.fsPath;
+        const fileComments = this.comments[filePath];
+        
+        if (!fileComments) {
+            return undefined;
+        }
+
+        return fileComments.find(c => c.id === commentId);
+    }
+
+    public async removeCommentById(uri: vscode.Uri, commentId: string): Promise<void> {
+        const filePath = uri.fsPath;
+        
+        if (!this.comments[filePath]) {
+            vscode.window.showWarningMessage('该文件没有本地注释');
+            return;
+        }
+
+        const commentToRemove = this.comments[filePath].find(c => c.id === commentId);
+        
+        if (!commentToRemove) {
+            vscode.window.showWarningMessage('找不到指定的注释');
+            return;
+        }
+
+        this.comments[filePath] = this.comments[filePath].filter(c => c.id !== commentId);
+
+        // 如果该文件没有注释了，删除该文件的记录
+        if (this.comments[filePath].length === 0) {
+            delete this.comments[filePath];
+        }
+
+        await this.saveComments();
+        vscode.window.showInformationMessage(`已删除第 ${commentToRemove.line + 1} 行的本地注释`);
+    }
+
+    /**
+     * 回复一条注释
+     */
+    public async addReply(uri: vscode.Uri, commentId: string, content: string): Promise<void> {
+        const comment = this.getCommentById(uri, commentId);
+        if (!comment) {
+            vscode.window.showWarningMessage('找不到指定的注释');
+            return;
+        }
+
+        comment.replies = [...(comment.replies || []), {
+            id: this.generateId(),
+            content,
+            timestamp: Date.now()
+        }];
+        // 回复也算作对注释的修改，多窗口合并时以此判断新旧
+        comment.timestamp = Date.now();
+
+        await this.saveComments();
+    }
+
+    public async editReply(uri: vscode.Uri, commentId: string, replyId: string, newContent: string): Promise<void> {
+        const reply = this.getCommentById(uri, commentId)?.replies?.find(r => r.id === replyId);
+        if (!reply) {
+            vscode.window.showWarningMessage('找不到指定的回复');
+            return;
+        }
+
+        reply.content = newContent;
+        reply.timestamp = Date.now();
+        this.getCommentById(uri, commentId)!.timestamp = Date.now();
+
+        await this.saveComments();
+    }
+
+    /**
+     * 批量修改注释或回复的内容，所有目标都存在时才会修改，并且只保存一次
+     * @returns 内容实际发生变化的条数；有目标找不到时不做任何修改并返回 undefined
+     */
+    public async editContents(edits: ContentEdit[]): Promise<number | undefined> {
+        const targets: { target: { content: string; timestamp: number }; comment: LocalComment; content: string }[] = [];
+        for (const edit of edits) {
+            const comment = this.comments[edit.filePath]?.find(c => c.id === edit.commentId);
+            const target = edit.replyId ? comment?.replies?.find(r => r.id === edit.replyId) : comment;
+            if (!comment || !target) {
+                return undefined;
+            }
+            if (target.content !== edit.content) {
+                targets.push({ target, comment, content: edit.content });
+            }
+        }
+
+        const now = Date.now();
+        for (const { target, comment, content } of targets) {
+            target.content = content;
+            target.timestamp = now;
+            comment.timestamp = now;
+        }
+        if (targets.length > 0) {
+            await this.saveComments();
+        }
+        return targets.length;
+    }
+
+    /**
+     * 修改注释的状态、优先级或分类，只处理 attributes 中出现的字段
+     */
+    public async setCommentAttributes(uri: vscode.Uri, commentId: string, attributes: CommentAttributes): Promise<void> {
+        const comment = this.getCommentById(uri, commentId);
+        if (!comment) {
+            vscode.window.showWarningMessage('找不到指定的注释');
+            return;
+        }
+
+        for (const key of Object.keys(attributes) as (keyof CommentAttributes)[]) {
+            this.setCommentAttribute(comment, key, attributes[key]);
+        }
+        comment.timestamp = Date.now();
+
+        await this.saveComments();
+    }
+
+    private setCommentAttribute<K extends keyof CommentAttributes>(comment: CommentAttributes, key: K, value: CommentAttributes[K]): void {
+        // note 是默认状态，不写入存储
+        if (value === undefined || value === '' || (key === 'status' && value === 'note')) {
+            delete comment[key];
+        } else {
+            comment[key] = value;
+        }
+    }
+
+    public async removeReply(uri: vscode.Uri, commentId: string, replyId: string): Promise<void> {
+        const comment = this.getCommentById(uri, commentId);
+        if (!comment || !comment.replies) {
+            vscode.window.showWarningMessage('找不到指定的回复');
+            return;
+        }
+
+        comment.replies = comment.replies.filter(reply => reply.id !== replyId);
+        if (comment.replies.length === 0) {
+            delete comment.replies;
+        }
+        comment.timestamp = Date.now();
+
+        await this.saveComments();
+    }
+
+    /**
+     * 获取指定文件中所有可以匹配到代码的注释
+     * 
+     * 该方法会重新扫描文件内容，重新计算每个注释的匹配状态。
+     * 与getAllComments不同，这个方法只返回当前能够匹配到代码的注释。
+     * 用于确保注释树视图(CommentTreeView)能正确显示注释的匹配状态。
+     * 
+     * @param uri - VSCode的Uri对象，指向要获取注释的文件
+     * @returns 返回文件中所有能够匹配到代码的注释数组
+     * 
+     * @example
+     * const uri = vscode.Uri.file(filePath);
+     * const matchedComments = commentManager.getComments(uri);
+     * // matchedComments只包含能够匹配到当前代码的注释
+     */
+    public getComments(uri: vscode.Uri): LocalComment[] {
+        const filePath = uri.fsPath;
+        const fileComments = this.comments[filePath] || [];
+        
+        if (fileComments.length === 0) {
+            return [];
+        }
+
+        // 获取当前文档内容进行智能匹配
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (!document) {
+            // 如果文档未打开，返回空数组（暂时隐藏注释）
+            return [];
+        }
+
+        // 使用批量匹配功能，确保不会有多个注释匹配到同一行；文档与注释都没有变化时复用上次的结果
+        const matchResults = this.getMatchResults(filePath, document, fileComments);
+        
+        const matchedComments: LocalComment[] = [];
+        let needsSave = false;
+
+        for (const comment of fileComments) {
+            const matchedLine = matchResults.get(comment.id) ?? -1;
+            
+            if (matchedLine !== -1) {
+                // 记录匹配状态为true
+                comment.isMatched = true;
+                
+                // 如果位置发生了变化或新位置刚被确认，更新存储的注释（范围注释整体平移）
+                if (comment.line !== matchedLine) {
+                    this.moveComment(comment, matchedLine);
+                    needsSave = true;
+                }
+                if (this.unconfirmedAnchors.delete(comment.id)) {
+                    needsSave = true;
+                }
+                
+                // 创建一个新的注释对象，保持原有信息
+                const matchedComment: LocalComment = {
+                    ...comment,
+                    isMatched: true // 确保复制的对象也有匹配状态
+                };
+                matchedComments.push(matchedComment);
+            } else {
+                // 标记为未匹配
+                comment.isMatched = false;
+            }
+        }
+
+        // 如果有位置更新，保存到文件
+        if (needsSave) {
+            this.saveCommentsAsync();
+        }
+
+        // 注释已移动到匹配的行，按移动后的锚点记录缓存
+        this.matchCache.set(filePath, {
+            version: document.version,
+            signature: this.getAnchorSignature(fileComments),
+            results: matchResults,
+            dirty: new Set()
+        });
+
+        return matchedComments;
+    }
+
+    /**
+     * 缓存有效时直接返回；编辑后只重新匹配受影响的注释，其余注释保留原结果
+     */
+    private getMatchResults(filePath: string, document: vscode.TextDocument, fileComments: LocalComment[]): Map<string, number> {
+        const cached = this.matchCache.get(filePath);
+        if (!cached || cached.version !== document.version || cached.signature !== this.getAnchorSignature(fileComments)) {
+            return this.commentMatcher.batchMatchComments(document, fileComments);
+        }
+        if (cached.dirty.size === 0) {
+            return cached.results;
+        }
+        return this.commentMatcher.rematchComments(document, fileComments, cached.results, cached.dirty);
+    }
+
+    /**
+     * 匹配所依据的注释字段，任何一项变化都会让缓存的结果失效
+     */
+    private getAnchorSignature(fileComments: LocalComment[]): string {
+        return fileComments.map(comment => [
+            comment.id,
+            comment.line,
+            comment.lineContent,
+            (comment.rangeContent || []).join('\n'),
+            (comment.contextBefore || []).join('\n'),
+            (comment.contextAfter || []).join('\n')
+        ].join('\u0000')).join('\u0001');
+    }
+
+    /**
+     * 根据编辑的实际变化区间平移注释：粘贴、多光标、重构、格式化等任何编辑都能精确跟随
+     * 锚定代码被整块删除或替换的注释保留原快照，之后由 CommentMatcher 按内容重新查找
+     */
+    public handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        const filePath = event.document.uri.fsPath;
+        const fileComments = this.comments[filePath];
+        
+        if (!fileComments || fileComments.length === 0 || event.contentChanges.length === 0) {
+            return;
+        }
+
+        // 变化区间都基于修改前的文档且互不重叠，按位置排序后依次累加行号偏移
+        const changes = [...event.contentChanges].sort((a, b) => a.range.start.compareTo(b.range.start));
+        const lastLine = event.document.lineCount - 1;
+        let updates = 0;
+
+        // 缓存与修改前的注释一致时增量更新：只平移的注释沿用原结果，代码或上下文被修改的注释之后重新匹配
+        const cached = this.matchCache.get(filePath);
+        const cacheValid = cached !== undefined && cached.signature === this.getAnchorSignature(fileComments);
+        const dirty = new Set<string>(cacheValid ? cached.dirty : []);
+
+        for (const comment of fileComments) {
+            const previous = { line: comment.line, range: comment.range };
+            const first = this.mapLineThroughChanges(comment.line, changes);
+            const last = comment.range ? this.mapLineThroughChanges(comment.range.endLine, changes) : first;
+            if (!first.edited && !last.edited && first.line === comment.line && last.line === (comment.range ? comment.range.endLine : comment.line)) {
+                continue;
+            }
+
+            const startLine = Math.min(first.line, lastLine);
+            const endLine = Math.min(Math.max(startLine, last.line), lastLine);
+            if (comment.range) {
+                comment.range = { ...comment.range, startLine, endLine };
+            }
+            comment.line = startLine;
+            if (first.edited || last.edited || startLine !== first.line) {
+                dirty.add(comment.id);
+            }
+
+            if (first.removed && last.removed) {
+                // 例如 git checkout 后重新加载的文件整体是一次替换：以平移后的原行号为中心按内容查找，匹配确认之前不保存新位置
+                if (!this.unconfirmedAnchors.has(comment.id)) {
+                    this.unconfirmedAnchors.set(comment.id, previous);
+                }
+                console.log(`⚠️ 注释 ${comment.id} 锚定的代码已被删除或替换，改为按内容匹配`);
+                continue;
+            }
+            updates++;
+            this.refreshSnapshot(comment, event.document);
+        }
+
+        // 注释附近的代码变化时只需要更新上下文快照；等待按内容匹配的注释保留原快照
+        for (const comment of fileComments) {
+            if (!this.unconfirmedAnchors.has(comment.id) && this.isNearChanges(comment, changes) && this.captureContext(comment, event.document)) {
+                updates++;
+                dirty.add(comment.id);
+            }
+        }
+
+        if (cacheValid) {
+            const results = new Map<string, number>();
+            for (const comment of fileComments) {
+                // 无法匹配的注释可能因为这次编辑重新匹配上，也需要重新计算
+                if (cached.results.get(comment.id) === -1) {
+                    dirty.add(comment.id);
+                }
+                results.set(comment.id, dirty.has(comment.id) ? -1 : comment.line);
+            }
+            this.matchCache.set(filePath, {
+                version: event.document.version,
+                signature: this.getAnchorSignature(fileComments),
+                results,
+                dirty
+            });
+        } else {
+            this.matchCache.delete(filePath);
+        }
+
+        if (updates > 0) {
+            console.log(`⚡ 根据编辑区间更新了 ${updates} 个注释`);
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * 计算修改前的某一行在修改后的行号
+     * @param changes 按起始位置排序的变化区间
+     * @returns edited 表示该行内容被修改过，removed 表示该行被整行删除或替换（line 为按之前的变化平移后的原行号，作为按内容查找的中心）
+     */
+    private mapLineThroughChanges(line: number, changes: readonly vscode.TextDocumentContentChangeEvent[]): { line: number; edited: boolean; removed: boolean } {
+        let offset = 0;
+        for (const change of changes) {
+            const { start, end } = change.range;
+            const addedLines = change.text.split('\n').length - 1;
+            if (line > end.line) {
+                offset += addedLines - (end.line - start.line);
+                continue;
+            }
+            if (line < start.line) {
+                break;
+            }
+
+            // 变化结束于该行：该行剩余的内容接在插入文本的最后一行后面
+            // 包括在行首插入换行的情况，此时整行内容被推到后面
+            if (line === end.line && (line > start.line || end.character === 0)) {
+                return { line: start.line + addedLines + offset, edited: true, removed: false };
+            }
+            // 变化从该行中间开始：该行开头的内容保持不动
+            if (line === start.line && !(start.character === 0 && line < end.line)) {
+                return { line: line + offset, edited: true, removed: false };
+            }
+            // 整行都在被删除或替换的区间内
+            return { line: line + offset, edited: true, removed: true };
+        }
+        return { line: line + offset, edited: false, removed: false };
+    }
+
+    /**
+     * 注释锚定的代码上下 CONTEXT_LINES 行内是否有变化（按修改后的行号粗略判断）
+     */
+    private isNearChanges(comment: LocalComment, changes: readonly vscode.TextDocumentContentChangeEvent[]): boolean {
+        const endLine = comment.range ? comment.range.endLine : comment.line;
+        let offset = 0;
+        for (const change of changes) {
+            const changeStart = change.range.start.line + offset;
+            const changeEnd = changeStart + change.text.split('\n').length - 1;
+            if (changeEnd >= comment.line - CONTEXT_LINES && changeStart <= endLine + CONTEXT_LINES) {
+                return true;
+            }
+            offset += change.text.split('\n').length - 1 - (change.range.end.line - change.range.start.line);
+        }
+        return false;
+    }
+
+    /**
+     * 连续输入时合并保存
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.saveComments();
+        }, 300);
+    }
+
+    private generateId(): string {
+        return Date.now().toString(36) + Math.random().toString(36).substr(2);
+    }
+
+    public getAllComments(): FileComments {
+        return this.comments;
+    }
+
+    /**
+     * 文件或文件夹被重命名、移动后，把注释（包括归档的注释）迁移到新路径下
+     */
+    private async handleFilesRenamed(files: ReadonlyArray<{ readonly oldUri: vscode.Uri; readonly newUri: vscode.Uri }>): Promise<void> {
+        let movedFiles = 0;
+
+        for (const { oldUri, newUri } of files) {
+            if (oldUri.scheme !== 'file' || newUri.scheme !== 'file') {
+                continue;
+            }
+            const oldPath = oldUri.fsPath;
+            const newPath = newUri.fsPath;
+
+            for (const fileComments of [this.comments, this.archived]) {
+                // 重命名的可能是文件夹，其下所有文件的路径都要跟着变
+                for (const filePath of Object.keys(fileComments)) {
+                    if (filePath !== oldPath && !this.isPathInside(filePath, oldPath)) {
+                        continue;
+                    }
+                    const targetPath = filePath === oldPath ? newPath : path.join(newPath, path.relative(oldPath, filePath));
+                    fileComments[targetPath] = (fileComments[targetPath] || []).concat(fileComments[filePath]);
+                    delete fileComments[filePath];
+                    movedFiles++;
+                }
+            }
+        }
+
+        if (movedFiles > 0) {
+            await this.saveComments();
+            this._onDidChangeComments.fire();
+            console.log(`📁 文件已重命名，迁移了 ${movedFiles} 个文件的注释`);
+        }
+    }
+
+    /**
+     * 文件或文件夹被删除后，将其注释移入归档区，之后可以恢复或彻底清除
+     */
+    private async handleFilesDeleted(files: ReadonlyArray<vscode.Uri>): Promise<void> {
+        const archivedAt = Date.now();
+        let archivedFiles = 0;
+
+        for (const uri of files) {
+            if (uri.scheme !== 'file') {
+                continue;
+            }
+            for (const filePath of Object.keys(this.comments)) {
+                if (filePath !== uri.fsPath && !this.isPathInside(filePath, uri.fsPath)) {
+                    continue;
+                }
+                const comments = this.comments[filePath].map(comment => ({ ...comment, isMatched: undefined, archivedAt }));
+                this.archived[filePath] = (this.archived[filePath] || []).concat(comments);
+                delete this.comments[filePath];
+                archivedFiles++;
+            }
+        }
+
+        if (archivedFiles > 0) {
+            await this.saveComments();
+            this._onDidChangeComments.fire();
+            console.log(`🗑️ 文件已删除，归档了 ${archivedFiles} 个文件的注释`);
+        }
+    }
+
+    /**
+     * 读取文件内容用于匹配：已打开的文档使用编辑器中的内容，否则从磁盘读取
+     * @returns 文件不存在或无法读取时返回 undefined
+     */
+    public getLineSource(filePath: string): LineSource | undefined {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (document) {
+            return document;
+        }
+        try {
+            return createLineSource(fs.readFileSync(filePath, 'utf8'), guessLanguageId(filePath));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 查找所有无法匹配到代码的注释，未打开的文件从磁盘读取后匹配
+     *
+     * 文件内容和注释锚点都没有变化的文件沿用上次的结果，后台定期查找时只重新匹配有变化的文件
+     */
+    public findUnmatchedComments(): { filePath: string; comment: LocalComment }[] {
+        const unmatched: { filePath: string; comment: LocalComment }[] = [];
+        for (const [filePath, fileComments] of Object.entries(this.comments)) {
+            const key = this.getFileVersionKey(filePath, fileComments);
+            let cached = this.unmatchedCache.get(filePath);
+            if (!cached || cached.key !== key) {
+                const source = this.getLineSource(filePath);
+                const matchResults = source ? this.commentMatcher.batchMatchComments(source, fileComments) : undefined;
+                cached = {
+                    key,
+                    unmatched: fileComments.filter(comment => !matchResults || (matchResults.get(comment.id) ?? -1) === -1)
+                };
+                this.unmatchedCache.set(filePath, cached);
+            }
+            unmatched.push(...cached.unmatched.map(comment => ({ filePath, comment })));
         }
 
-        this.comments[filePath][commentIndex].content = newContent;
-        this.comments[filePath][commentIndex].timestamp = Date.now(); // 更新时间戳
+        for (const filePath of this.unmatchedCache.keys()) {
+            if (!this.comments[filePath]) {
+                this.unmatchedCache.delete(filePath);
+            }
+        }
+        return unmatched;
+    }
 
-        await this.saveComments();
-        vscode.window.showInformationMessage('注释已更新');
+    /**
+     * 文件内容的版本（打开的文档版本、磁盘上的修改时间与大小）与注释锚点，任何一项变化都需要重新匹配
+     */
+    private getFileVersionKey(filePath: string, fileComments: LocalComment[]): string {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        let stat = 'missing';
+        try {
+            const { mtimeMs, size } = fs.statSync(filePath);
+            stat = `${mtimeMs}:${size}`;
+        } catch {
+            // 文件不存在时注释都无法匹配，同样记录下来
+        }
+        return [document ? document.version : 'disk', stat, this.getAnchorSignature(fileComments)].join('\u0002');
     }
 
-    public getCommentById(uri: vscode.Uri, commentId: string): LocalComment | undefined {
-        const filePath = uri.fsPath;
+    /**
+     * 按文件当前内容重新匹配该文件的所有注释并更新位置，用于文件在编辑器外被修改（git 操作、外部格式化等）之后
+     * @returns 移动了位置的注释与无法匹配的注释；文件无法读取时返回 undefined
+     */
+    public async reconcileFile(filePath: string): Promise<ReconcileResult | undefined> {
         const fileComments = this.comments[filePath];
-        
-        if (!fileComments) {
+        const source = fileComments && fileComments.length > 0 ? this.getLineSource(filePath) : undefined;
+        if (!fileComments || !source) {
             return undefined;
         }
 
-        return fileComments.find(c => c.id === commentId);
-    }
-
-    public async removeComment(uri: vscode.Uri, line: number): Promise<void> {
-        const filePath = uri.fsPath;
-        
-        if (!this.comments[filePath]) {
-            vscode.window.showWarningMessage('该文件没有本地注释');
-            return;
+        const moved: ReconcileResult['moved'] = [];
+        const lost: LocalComment[] = [];
+        let needsSave = false;
+        const matchResults = this.commentMatcher.batchMatchComments(source, fileComments);
+        for (const comment of fileComments) {
+            const matchedLine = matchResults.get(comment.id) ?? -1;
+            comment.isMatched = matchedLine !== -1;
+            if (matchedLine === -1) {
+                lost.push(comment);
+                continue;
+            }
+            if (comment.line !== matchedLine) {
+                moved.push({ comment, from: comment.line });
+                this.moveComment(comment, matchedLine);
+                needsSave = true;
+            }
+            if (this.unconfirmedAnchors.delete(comment.id)) {
+                needsSave = true;
+            }
+            // 忽略格式差异匹配时代码可能被重新格式化过，快照随之更新
+            if (this.refreshSnapshot(comment, source)) {
+                needsSave = true;
+            }
         }
 
-        const initialLength = this.comments[filePath].length;
-        this.comments[filePath] = this.comments[filePath].filter(c => c.line !== line);
-
-        if (this.comments[filePath].length === initialLength) {
-            vscode.window.showWarningMessage(`第 ${line + 1} 行没有本地注释`);
-            return;
+        if (needsSave) {
+            await this.saveComments();
         }
+        return { moved, lost };
+    }
 
-        // 如果该文件没有注释了，删除该文件的记录
-        if (this.comments[filePath].length === 0) {
-            delete this.comments[filePath];
+    /**
+     * 解释注释的匹配过程，文件无法读取时返回 undefined
+     */
+    public explainMatch(filePath: string, commentId: string): { trace: MatchTrace; source: LineSource } | undefined {
+        const fileComments = this.comments[filePath];
+        const source = fileComments?.some(c => c.id === commentId) ? this.getLineSource(filePath) : undefined;
+        if (!fileComments || !source) {
+            return undefined;
         }
+        return { trace: this.commentMatcher.explainMatch(source, fileComments, commentId), source };
+    }
 
-        await this.saveComments();
-        vscode.window.showInformationMessage(`已删除第 ${line + 1} 行的本地注释`);
+    /**
+     * 在文件中为注释查找候选位置，按代码相似度和上下文排序
+     */
+    public rankAnchorCandidates(comment: LocalComment, source: LineSource, limit?: number): AnchorCandidate[] {
+        return this.commentMatcher.rankCandidates(source, comment, limit);
     }
 
-    public async removeCommentById(uri: vscode.Uri, commentId: string): Promise<void> {
-        const filePath = uri.fsPath;
-        
-        if (!this.comments[filePath]) {
-            vscode.window.showWarningMessage('该文件没有本地注释');
-            return;
-        }
+    /**
+     * 在其他文件中查找与注释快照完全一致的代码
+     */
+    public findRelocationCandidate(comment: LocalComment, source: LineSource): AnchorCandidate | undefined {
+        return this.commentMatcher.findRelocationCandidate(source, comment);
+    }
 
-        const commentToRemove = this.comments[filePath].find(c => c.id === commentId);
-        
-        if (!commentToRemove) {
-            vscode.window.showWarningMessage('找不到指定的注释');
-            return;
+    /**
+     * 将注释重新定位到指定文件的指定行，并用该位置的代码更新快照
+     * @param targetPath 目标文件，与原文件不同时注释会移动到目标文件
+     */
+    public async reanchorComment(filePath: string, commentId: string, targetPath: string, line: number): Promise<boolean> {
+        const comment = this.comments[filePath]?.find(c => c.id === commentId);
+        const source = this.getLineSource(targetPath);
+        if (!comment || !source || line < 0 || line >= source.lineCount) {
+            return false;
         }
 
-        this.comments[filePath] = this.comments[filePath].filter(c => c.id !== commentId);
+        if (targetPath !== filePath) {
+            this.comments[filePath] = this.comments[filePath].filter(c => c.id !== commentId);
+            if (this.comments[filePath].length === 0) {
+                delete this.comments[filePath];
+            }
+            this.comments[targetPath] = [...(this.comments[targetPath] || []), comment];
+        }
 
-        // 如果该文件没有注释了，删除该文件的记录
-        if (this.comments[filePath].length === 0) {
-            delete this.comments[filePath];
+        this.moveComment(comment, line);
+        // 范围超出目标文件末尾时截断到最后一行
+        if (comment.range && comment.range.endLine >= source.lineCount) {
+            comment.range = { ...comment.range, endLine: source.lineCount - 1 };
         }
+        this.refreshSnapshot(comment, source);
+        comment.originalLine = line;
+        comment.timestamp = Date.now();
 
         await this.saveComments();
-        vscode.window.showInformationMessage(`已删除第 ${commentToRemove.line + 1} 行的本地注释`);
+        return true;
     }
 
     /**
-     * 获取指定文件中所有可以匹配到代码的注释
-     * 
-     * 该方法会重新扫描文件内容，重新计算每个注释的匹配状态。
-     * 与getAllComments不同，这个方法只返回当前能够匹配到代码的注释。
-     * 用于确保注释树视图(CommentTreeView)能正确显示注释的匹配状态。
-     * 
-     * @param uri - VSCode的Uri对象，指向要获取注释的文件
-     * @returns 返回文件中所有能够匹配到代码的注释数组
-     * 
-     * @example
-     * const uri = vscode.Uri.file(filePath);
-     * const matchedComments = commentManager.getComments(uri);
-     * // matchedComments只包含能够匹配到当前代码的注释
+     * 获取已删除文件的归档注释
      */
-    public getComments(uri: vscode.Uri): LocalComment[] {
-        const filePath = uri.fsPath;
-        const fileComments = this.comments[filePath] || [];
-        
-        if (fileComments.length === 0) {
-            return [];
+    public getArchivedComments(): FileComments {
+        return this.archived;
+    }
+
+    /**
+     * 将归档的注释恢复到指定文件（默认为原路径），恢复后重新匹配代码位置
+     * @param commentId 只恢复单条注释，省略时恢复整个文件的归档注释
+     */
+    public async restoreArchived(filePath: string, targetPath: string = filePath, commentId?: string): Promise<number> {
+        const archivedComments = this.archived[filePath] || [];
+        const restoring = commentId ? archivedComments.filter(c => c.id === commentId) : archivedComments;
+        if (restoring.length === 0) {
+            return 0;
         }
 
-        // 获取当前文档内容进行智能匹配
-        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
-        if (!document) {
-            // 如果文档未打开，返回空数组（暂时隐藏注释）
-            return [];
+        const remaining = archivedComments.filter(c => !restoring.includes(c));
+        if (remaining.length > 0) {
+            this.archived[filePath] = remaining;
+        } else {
+            delete this.archived[filePath];
         }
 
-        // 使用批量匹配功能，确保不会有多个注释匹配到同一行
-        const matchResults = this.commentMatcher.batchMatchComments(document, fileComments);
-        
-        const matchedComments: LocalComment[] = [];
-        let needsSave = false;
+        const existing = this.comments[targetPath] || [];
+        const existingIds = new Set(existing.map(c => c.id));
+        this.comments[targetPath] = existing.concat(restoring
+            .filter(c => !existingIds.has(c.id))
+            .map(({ archivedAt, ...comment }) => comment));
 
-        for (const comment of fileComments) {
-            const matchedLine = matchResults.get(comment.id) ?? -1;
-            
-            if (matchedLine !== -1) {
-                // 记录匹配状态为true
-                comment.isMatched = true;
-                
-                // 创建一个新的注释对象，更新行号但保持原有信息
-                const matchedComment: LocalComment = {
-                    ...comment,
-                    line: matchedLine,
-                    isMatched: true // 确保复制的对象也有匹配状态
-                };
-                matchedComments.push(matchedComment);
-                
-                // 如果位置发生了变化，更新存储的注释
-                if (comment.line !== matchedLine) {
-                    comment.line = matchedLine;
-                    needsSave = true;
-                }
+        await this.saveComments();
+        await this.matchFileComments(vscode.Uri.file(targetPath));
+        this._onDidChangeComments.fire();
+        return restoring.length;
+    }
+
+    /**
+     * 彻底清除归档的注释
+     * @param filePath 省略时清除全部归档
+     * @param commentId 只清除单条注释
+     */
+    public async purgeArchived(filePath?: string, commentId?: string): Promise<void> {
+        if (!filePath) {
+            this.archived = {};
+        } else if (commentId) {
+            const remaining = (this.archived[filePath] || []).filter(c => c.id !== commentId);
+            if (remaining.length > 0) {
+                this.archived[filePath] = remaining;
             } else {
-                // 标记为未匹配
-                comment.isMatched = false;
+                delete this.archived[filePath];
             }
+        } else {
+            delete this.archived[filePath];
         }
 
-        // 如果有位置更新，保存到文件
-        if (needsSave) {
-            this.saveCommentsAsync();
-        }
-
-        return matchedComments;
+        await this.saveComments();
+        this._onDidChangeComments.fire();
     }
 
-    public async handleDocumentChange(event: vscode.TextDocumentChangeEvent, hasRecentKeyboardActivity: boolean = true): Promise<void> {
-        const filePath = event.document.uri.fsPath;
-        const fileComments = this.comments[filePath];
-        
-        if (!fileComments || fileComments.length === 0) {
-            return;
+    /**
+     * 获取存储文件路径；传入文件URI时返回该文件所属工作区文件夹的存储文件
+     */
+    public getStorageFilePath(uri?: vscode.Uri): string {
+        if (uri) {
+            return this.getStorageFileForPath(uri.fsPath);
         }
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document.uri.scheme === 'file') {
+            return this.getStorageFileForPath(activeEditor.document.uri.fsPath);
+        }
+        return this.storageFiles.values().next().value || this.defaultStorageFile;
+    }
 
-        // 只有在有最近键盘活动时才处理直接编辑注释所在行的情况
-        // 这可以避免Git分支切换等非用户编辑操作触发代码快照更新
-        if (!hasRecentKeyboardActivity) {
-            // 如果没有键盘活动，可能是Git分支切换等操作导致的文件变化
-            console.log('⏭️ 未检测到键盘活动，可能是Git分支切换，跳过代码快照更新');
-            return;
+    /**
+     * 获取每个工作区文件夹及其对应的存储文件
+     */
+    public getStorageFiles(): { folder: vscode.WorkspaceFolder | undefined; storageFile: string }[] {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (workspaceFolders.length === 0) {
+            return [{ folder: undefined, storageFile: this.defaultStorageFile }];
         }
+        return workspaceFolders
+            .filter(folder => this.storageFiles.has(folder.uri.toString()))
+            .map(folder => ({ folder, storageFile: this.storageFiles.get(folder.uri.toString())! }));
+    }
 
-        // 检查是否有直接编辑注释所在行的情况
-        let hasDirectLineEdit = false;
-        let directUpdates = 0;
-        
-        // 检查是否有可能影响行号的操作（添加行或删除行）
-        let hasLineNumberChanges = false;
-        
-        // 先检查是否有影响行号的变更
-        for (const change of event.contentChanges) {
-            // 检查是否有添加或删除行的操作
-            const hasLineBreaks = change.text.includes('\n'); // 添加行的特征
-            const spanMultipleLines = change.range.end.line > change.range.start.line; // 跨多行的特征
-            
-            if (hasLineBreaks || spanMultipleLines) {
-                hasLineNumberChanges = true;
-                console.log(`⚠️ 检测到可能影响行号的操作: ${spanMultipleLines ? '删除多行' : '添加行'}`);
-                break;
-            }
+    /**
+     * 获取当前项目信息
+     */
+    public getProjectInfo(): { name: string; path: string; storageFile: string } {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (workspaceFolders && workspaceFolders.length > 0) {
+            // 多根工作区使用工作区名称，并列出所有文件夹路径
+            const projectName = workspaceFolders.length > 1
+                ? (vscode.workspace.name || path.basename(workspaceFolders[0].uri.fsPath))
+                : path.basename(workspaceFolders[0].uri.fsPath);
+            return {
+                name: projectName,
+                path: workspaceFolders.map(folder => folder.uri.fsPath).join(', '),
+                storageFile: this.getStorageFiles().map(item => item.storageFile).join(', ')
+            };
+        } else {
+            return {
+                name: '未知项目',
+                path: '无工作区',
+                storageFile: this.defaultStorageFile
+            };
         }
-        
-        // 如果有可能影响行号的操作，直接走智能匹配流程，不立即更新内容快照
-        if (hasLineNumberChanges) {
-            console.log(`⚠️ 检测到行号变化，跳过直接更新内容快照，进入智能匹配流程`);
-            
-            // 将文件标记为需要智能更新
-            this.pendingUpdates.add(filePath);
-            
-            // 记录键盘活动状态
-            this._hasKeyboardActivity = hasRecentKeyboardActivity;
-            
-            // 立即执行智能更新（缩短延迟时间）
-            if (this.updateTimer) {
-                clearTimeout(this.updateTimer);
-            }
-            
-            this.updateTimer = setTimeout(async () => {
-                console.log('🧠 检测到行号变化，立即开始智能更新...');
-                await this.performSmartUpdates();
-                this.updateTimer = null;
-                
-                // 智能更新完成后再触发注释重新渲染
-                setTimeout(() => {
-                    vscode.commands.executeCommand('localComment.refreshComments');
-                }, 10);
-            }, 100); // 缩短延迟以更快响应行号变化
-            
-            return; // 提前返回，避免走直接更新的逻辑
+    }
+
+    /**
+     * 将已有的项目存储文件关联到指定的工作区文件夹
+     * 
+     * 用于仓库被移动、重新克隆或改名后找回注释：相对路径直接挂到新文件夹下，
+     * 旧版本留下的绝对路径会推断出原来的根目录后重新定位
+     * @param sourceFile 要关联的 projects/*.json 文件
+     * @param folder 目标工作区文件夹
+     * @param replace 为 true 时先清空该文件夹现有的注释，否则按注释ID合并
+     * @returns 关联到的文件数量
+     */
+    public async relinkProjectFile(sourceFile: string, folder: vscode.WorkspaceFolder, replace: boolean): Promise<number> {
+        const envelope = this.storage.peek(sourceFile, { projectName: folder.name });
+        if (!envelope) {
+            throw new Error(`无法读取 ${path.basename(sourceFile)}`);
         }
-        
-        // 如果没有行号变化，正常处理直接编辑
-        for (const change of event.contentChanges) {
-            const startLine = change.range.start.line;
-            const endLine = change.range.end.line;
-            
-            // 检查变化范围内是否有注释
-            for (const comment of fileComments) {
-                if (comment.line >= startLine && comment.line <= endLine) {
-                    // 用户直接编辑了注释所在的行，立即更新代码快照
-                    try {
-                        const currentLineContent = event.document.lineAt(comment.line).text.trim();
-                        if (currentLineContent !== (comment.lineContent || '').trim()) {
-                            comment.lineContent = currentLineContent;
-                            directUpdates++;
-                            hasDirectLineEdit = true;
-                            console.log(`⚡ 检测到直接编辑注释行 ${comment.line + 1}，立即更新代码快照`);
-                        }
-                    } catch (error) {
-                        console.warn(`⚠️ 无法立即更新注释 ${comment.id}:`, error);
-                    }
-                }
+        const storedComments = envelope.comments;
+        const folderPath = folder.uri.fsPath;
+        // 新版本文件记录了原根目录，旧版本只能根据绝对路径推断
+        const oldRoot = envelope.project.rootPath ||
+            this.detectOldRoot(Object.keys(storedComments).filter(key => path.isAbsolute(key)), folderPath);
+
+        const relinked: FileComments = {};
+        for (const [key, comments] of Object.entries(storedComments)) {
+            let filePath: string;
+            if (!path.isAbsolute(key)) {
+                filePath = path.join(folderPath, ...key.split('/'));
+            } else if (oldRoot && this.isPathInside(key, oldRoot)) {
+                filePath = path.join(folderPath, path.relative(oldRoot, key));
+            } else {
+                filePath = key;
             }
+            relinked[filePath] = (relinked[filePath] || []).concat(comments);
         }
 
-        // 如果有直接编辑，立即保存并刷新
-        if (hasDirectLineEdit) {
-            await this.saveComments();
-            console.log(`⚡ 立即更新完成，共更新 ${directUpdates} 个注释`);
-            
-            // 立即刷新注释显示
-            setTimeout(() => {
-                vscode.commands.executeCommand('localComment.refreshComments');
-            }, 10);
-            
-            // 如果只是直接编辑，不需要执行智能匹配
-            const needsSmartUpdate = fileComments.some(comment => {
-                // 检查是否有注释可能需要智能匹配（不在编辑范围内的注释）
-                return !event.contentChanges.some(change => 
-                    comment.line >= change.range.start.line && 
-                    comment.line <= change.range.end.line
-                );
-            });
-            
-            if (!needsSmartUpdate) {
-                console.log(`✅ 所有注释都通过直接编辑更新，跳过智能匹配`);
-                return;
+        if (replace) {
+            for (const filePath of Object.keys(this.comments)) {
+                if (this.isPathInside(filePath, folderPath)) {
+                    delete this.comments[filePath];
+                }
             }
         }
 
-        // 将这个文件标记为需要智能更新（处理可能需要重新匹配的注释）
-        this.pendingUpdates.add(filePath);
-        
-        // 记录键盘活动状态
-        this._hasKeyboardActivity = hasRecentKeyboardActivity;
-
-        // 使用防抖机制：清除之前的定时器，设置新的定时器
-        if (this.updateTimer) {
-            clearTimeout(this.updateTimer);
+        for (const [filePath, comments] of Object.entries(relinked)) {
+            const existing = this.comments[filePath] || [];
+            const existingIds = new Set(existing.map(c => c.id));
+            this.comments[filePath] = existing.concat(comments.filter(c => !existingIds.has(c.id)));
         }
 
-        // 延迟300ms后执行智能更新（减少延迟，但仍然防抖）
-        this.updateTimer = setTimeout(async () => {
-            console.log('🧠 开始智能更新注释代码快照...');
-            await this.performSmartUpdates();
-            this.updateTimer = null;
-            
-            // 智能更新完成后再触发注释重新渲染
-            setTimeout(() => {
-                vscode.commands.executeCommand('localComment.refreshComments');
-            }, 10);
-        }, 300);
+        await this.saveComments();
+        console.log(`已将 ${path.basename(sourceFile)} 关联到工作区文件夹 ${folder.name}`);
+        return Object.keys(relinked).length;
     }
 
     /**
-     * 执行智能更新：只有当注释确实匹配到正确位置时，才更新代码快照
+     * 按注释ID合并导入的注释
+     * @param imported 以绝对路径为键的注释
+     * @param strategy 冲突处理方式：keepMine 保留本地、keepTheirs 使用导入的、keepBoth 两者都保留（导入的换新ID）
      */
-    private async performSmartUpdates(): Promise<void> {
-        // 如果没有键盘活动，可能是Git分支切换，跳过智能更新
-        if (!this._hasKeyboardActivity) {
-            console.log('⏭️ 未检测到键盘活动，跳过智能更新');
-            this.pendingUpdates.clear();
-            return;
+    public async importComments(imported: FileComments, strategy: ImportConflictStrategy): Promise<ImportResult> {
+        const result: ImportResult = { added: 0, replaced: 0, duplicated: 0, skipped: 0, files: [] };
+
+        // 建立注释ID到所在文件的索引
+        const existingIndex = new Map<string, string>();
+        for (const [filePath, comments] of Object.entries(this.comments)) {
+            for (const comment of comments) {
+                existingIndex.set(comment.id, filePath);
+            }
         }
 
-        let totalUpdates = 0;
-        
-        for (const filePath of this.pendingUpdates) {
-            const fileComments = this.comments[filePath];
-            if (!fileComments) continue;
-
-            // 获取当前文档
-            const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
-            if (!document) continue;
-
-            let fileUpdates = 0;
-            
-            // 使用批量匹配功能，确保不会有多个注释匹配到同一行
-            const matchResults = this.commentMatcher.batchMatchComments(document, fileComments);
-            
-            for (const comment of fileComments) {
-                const matchedLine = matchResults.get(comment.id) ?? -1;
-                
-                if (matchedLine !== -1) {
-                    // 注释找到了匹配位置，检查是否需要更新代码快照
-                    try {
-                        const currentLineContent = document.lineAt(matchedLine).text.trim();
-                        const storedLineContent = (comment.lineContent || '').trim();
-                        
-                        // 情况1：注释匹配到了原位置，但代码内容发生了变化（用户编辑）
-                        // 情况2：注释匹配到了新位置，需要更新行号和代码快照
-                        if (currentLineContent !== storedLineContent && currentLineContent.length > 0) {
-                            comment.lineContent = currentLineContent;
-                            comment.line = matchedLine; // 同时更新行号
-                            fileUpdates++;
-                            totalUpdates++;
-                        } else if (comment.line !== matchedLine) {
-                            // 只是位置变化，代码内容没变
-                            comment.line = matchedLine;
-                            fileUpdates++;
-                            totalUpdates++;
-                        }
-                    } catch (error) {
-                        console.warn(`⚠️ 无法智能更新注释 ${comment.id}:`, error);
+        for (const [filePath, comments] of Object.entries(imported)) {
+            for (const incoming of comments) {
+                const existingPath = existingIndex.get(incoming.id);
+                const existing = existingPath ? this.comments[existingPath].find(c => c.id === incoming.id) : undefined;
+
+                if (existing && existingPath) {
+                    const isSame = existingPath === filePath &&
+                        existing.content === incoming.content &&
+                        existing.lineContent === incoming.lineContent;
+                    if (isSame || strategy === 'keepMine') {
+                        result.skipped++;
+                        continue;
                     }
-                } else {
-                    // 如果找不到匹配位置，检查是否是在原位置直接修改
-                    try {
-                        if (comment.line >= 0 && comment.line < document.lineCount) {
-                            const currentLineContent = document.lineAt(comment.line).text.trim();
-                            
-                            // 如果原位置有新内容（不是空行），且与存储的内容有明显差异
-                            // 可能是用户直接修改了注释所在的行，应该更新代码快照
-                            if (currentLineContent.length > 0 && 
-                                currentLineContent !== (comment.lineContent || '').trim()) {
-                                
-                                // 使用相似度检查，如果修改不是太大，认为是同一行的修改
-                                const similarity = this.commentMatcher.calculateSimilarity(currentLineContent, comment.lineContent || '');
-                                if (similarity > 0.4) { // 相似度超过40%认为是同一行的修改
-                                    comment.lineContent = currentLineContent;
-                                    fileUpdates++;
-                                    totalUpdates++;
-                                    console.log(`🔄 检测到原位置代码修改，更新注释 ${comment.id} 的代码快照`);
-                                }
-                            }
+                    if (strategy === 'keepTheirs') {
+                        this.comments[existingPath] = this.comments[existingPath].filter(c => c.id !== incoming.id);
+                        if (this.comments[existingPath].length === 0) {
+                            delete this.comments[existingPath];
                         }
-                    } catch (error) {
-                        console.warn(`⚠️ 无法检查原位置修改 ${comment.id}:`, error);
+                        this.addImportedComment(filePath, { ...incoming });
+                        result.replaced++;
+                    } else {
+                        this.addImportedComment(filePath, { ...incoming, id: this.generateId() });
+                        result.duplicated++;
                     }
+                } else {
+                    this.addImportedComment(filePath, { ...incoming });
+                    existingIndex.set(incoming.id, filePath);
+                    result.added++;
                 }
-            }
 
-            if (fileUpdates > 0) {
-                console.log(`✅ 文件 ${path.basename(filePath)} 更新了 ${fileUpdates} 个注释`);
+                if (!result.files.includes(filePath)) {
+                    result.files.push(filePath);
+                }
             }
         }
 
-        // 清空待更新列表
-        this.pendingUpdates.clear();
+        await this.saveComments();
+        this._onDidChangeComments.fire();
+        return result;
+    }
 
-        // 如果有更新，保存到文件
-        if (totalUpdates > 0) {
-            await this.saveComments();
-            console.log(`✅ 智能更新完成，共更新 ${totalUpdates} 个注释`);
+    private addImportedComment(filePath: string, comment: LocalComment): void {
+        if (!this.comments[filePath]) {
+            this.comments[filePath] = [];
         }
+        this.comments[filePath].push(comment);
     }
 
-    private generateId(): string {
-        return Date.now().toString(36) + Math.random().toString(36).substr(2);
-    }
+    /**
+     * 打开文件并重新执行批量匹配，更新每条注释的定位状态
+     * @returns 能定位到代码的注释数量与无法定位的注释数量
+     */
+    public async matchFileComments(uri: vscode.Uri): Promise<{ anchored: number; unanchored: number }> {
+        const fileComments = this.comments[uri.fsPath] || [];
+        if (fileComments.length === 0) {
+            return { anchored: 0, unanchored: 0 };
+        }
 
-    public getAllComments(): FileComments {
-        return this.comments;
-    }
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch {
+            // 文件不存在时所有注释都无法定位
+            fileComments.forEach(comment => comment.isMatched = false);
+            return { anchored: 0, unanchored: fileComments.length };
+        }
 
-    public getStorageFilePath(): string {
-        return this.storageFile;
+        const matched = this.getComments(document.uri);
+        return { anchored: matched.length, unanchored: fileComments.length - matched.length };
     }
 
     /**
-     * 获取当前项目信息
+     * 根据旧的绝对路径推断原工作区根目录：逐级去掉路径前缀，
+     * 剩余部分在新文件夹中存在的前缀得票最多者即为原根目录
      */
-    public getProjectInfo(): { name: string; path: string; storageFile: string } {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            const workspacePath = workspaceFolders[0].uri.fsPath;
-            const projectName = path.basename(workspacePath);
-            return {
-                name: projectName,
-                path: workspacePath,
-                storageFile: this.storageFile
-            };
-        } else {
-            return {
-                name: '未知项目',
-                path: '无工作区',
-                storageFile: this.storageFile
-            };
+    private detectOldRoot(absoluteKeys: string[], folderPath: string): string | undefined {
+        const votes = new Map<string, number>();
+
+        for (const key of absoluteKeys) {
+            const segments = key.split(/[\\/]/);
+            for (let i = 1; i < segments.length; i++) {
+                const remainder = segments.slice(i);
+                if (fs.existsSync(path.join(folderPath, ...remainder))) {
+                    const root = key.substring(0, key.length - remainder.join(path.sep).length - 1);
+                    votes.set(root, (votes.get(root) || 0) + 1);
+                    break;
+                }
+            }
+        }
+
+        let bestRoot: string | undefined;
+        let bestVotes = 0;
+        for (const [root, count] of votes) {
+            if (count > bestVotes) {
+                bestRoot = root;
+                bestVotes = count;
+            }
         }
+        return bestRoot;
     }
 
     /**
@@ -679,14 +1770,15 @@ export class CommentManager {
             originalLine: line,
             lineContent: lineContent.trim()
         };
-
-        // 检查是否已存在该行的注释，如果存在则替换
-        const existingIndex = this.comments[filePath].findIndex(c => c.line === line);
-        if (existingIndex >= 0) {
-            this.comments[filePath][existingIndex] = comment;
-        } else {
-            this.comments[filePath].push(comment);
+        // 选中的文字删除后仍留有代码时，注释覆盖这段代码；整行都被删除时注释锚定到下一个非空行
+        if (currentLineText !== '') {
+            const remaining = document.lineAt(line);
+            this.setCommentRange(comment, document, new vscode.Range(line, remaining.firstNonWhitespaceCharacterIndex, line, remaining.text.length));
         }
+        this.captureContext(comment, document);
+
+        // 同一行可以有多条注释
+        this.comments[filePath].push(comment);
 
         // 保存注释
         await this.saveComments();
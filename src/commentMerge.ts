@@ -0,0 +1,95 @@
+import { FileComments, LocalComment } from './commentManager';
+import { StoragePayload } from './commentStorage';
+
+interface CommentEntry {
+    filePath: string;
+    comment: LocalComment;
+}
+
+/**
+ * 三方合并同一存储文件的两份修改（例如两个 VS Code 窗口各自保存的注释）
+ *
+ * 以上一次同步时的内容为基准，按注释ID比较：只有一方修改的采用修改的一方；
+ * 双方都修改的保留时间戳较新的一方；一方删除而另一方修改时保留修改。
+ * 没有基准时（从未同步过）退化为取并集
+ * @param base 上一次与存储文件同步时的内容
+ * @param mine 当前窗口内存中的内容
+ * @param theirs 存储文件中由其他窗口写入的内容
+ */
+export function mergeStoragePayloads(base: StoragePayload | undefined, mine: StoragePayload, theirs: StoragePayload): StoragePayload {
+    return {
+        comments: mergeFileComments(base?.comments, mine.comments, theirs.comments),
+        archived: mergeFileComments(base?.archived, mine.archived, theirs.archived)
+    };
+}
+
+function mergeFileComments(base: FileComments | undefined, mine: FileComments, theirs: FileComments): FileComments {
+    const baseIndex = indexById(base || {});
+    const mineIndex = indexById(mine);
+    const theirsIndex = indexById(theirs);
+    const merged: FileComments = {};
+
+    const add = (entry: CommentEntry) => {
+        (merged[entry.filePath] = merged[entry.filePath] || []).push(entry.comment);
+    };
+
+    // 先按存储文件中的顺序处理，再追加只存在于当前窗口的注释
+    const ids = new Set([...theirsIndex.keys(), ...mineIndex.keys()]);
+    for (const id of ids) {
+        const baseEntry = baseIndex.get(id);
+        const mineEntry = mineIndex.get(id);
+        const theirsEntry = theirsIndex.get(id);
+
+        if (mineEntry && theirsEntry) {
+            add(pickChanged(baseEntry, mineEntry, theirsEntry));
+        } else if (mineEntry) {
+            // 对方没有：要么是本窗口新增的，要么是对方删除的；删除后本窗口又修改过则保留
+            if (!baseEntry || !isSameEntry(baseEntry, mineEntry)) {
+                add(mineEntry);
+            }
+        } else if (theirsEntry) {
+            if (!baseEntry || !isSameEntry(baseEntry, theirsEntry)) {
+                add(theirsEntry);
+            }
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * 双方都存在同一条注释时选择保留哪一份
+ */
+function pickChanged(baseEntry: CommentEntry | undefined, mineEntry: CommentEntry, theirsEntry: CommentEntry): CommentEntry {
+    if (baseEntry) {
+        if (isSameEntry(baseEntry, mineEntry)) {
+            return theirsEntry;
+        }
+        if (isSameEntry(baseEntry, theirsEntry)) {
+            return mineEntry;
+        }
+    }
+    return theirsEntry.comment.timestamp > mineEntry.comment.timestamp ? theirsEntry : mineEntry;
+}
+
+function indexById(fileComments: FileComments): Map<string, CommentEntry> {
+    const index = new Map<string, CommentEntry>();
+    for (const [filePath, comments] of Object.entries(fileComments)) {
+        for (const comment of comments) {
+            index.set(comment.id, { filePath, comment });
+        }
+    }
+    return index;
+}
+
+function isSameEntry(a: CommentEntry, b: CommentEntry): boolean {
+    return a.filePath === b.filePath && serializeComment(a.comment) === serializeComment(b.comment);
+}
+
+/**
+ * 序列化时去掉运行时状态，只比较会写入存储文件的字段
+ */
+function serializeComment(comment: LocalComment): string {
+    const { isMatched, ...stored } = comment;
+    return JSON.stringify(stored);
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CommentManager, ReconcileResult } from './commentManager';
+
+/**
+ * 后台重新匹配 - 文件在编辑器外被修改（git pull、切换分支、外部格式化等）后，按文件当前内容重新匹配注释
+ *
+ * 打开的文件由编辑区间精确跟踪，这里处理的是未打开的文件：
+ * 文件监视器发现修改后立即处理，定时任务按修改时间补漏，插件启动时检查一遍关闭期间的修改
+ * 移动了位置和无法匹配的注释记录到输出面板，便于核对
+ */
+export class CommentReconciler implements vscode.Disposable {
+    private output: vscode.OutputChannel;
+    private watcher: vscode.FileSystemWatcher;
+    private pendingFiles: Set<string> = new Set();
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private intervalTimer: NodeJS.Timeout | undefined;
+    private reconciledMtimes: Map<string, number> = new Map(); // 文件路径 -> 上次重新匹配时的修改时间
+    private lostComments: Set<string> = new Set(); // 已记录为无法匹配的注释ID，避免重复记录
+    private running: Promise<void> = Promise.resolve();
+    private disposables: vscode.Disposable[] = [];
+    private _onDidReconcile = new vscode.EventEmitter<void>();
+    readonly onDidReconcile: vscode.Event<void> = this._onDidReconcile.event;
+
+    private static readonly DEBOUNCE_DELAY = 1000;
+    private static readonly STARTUP_DELAY = 5000; // 启动后稍等再检查，避免与插件初始化争抢
+
+    constructor(private commentManager: CommentManager) {
+        this.output = vscode.window.createOutputChannel('Local Comment');
+
+        this.watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this.disposables.push(
+            this.watcher,
+            this.watcher.onDidChange(uri => this.enqueue(uri.fsPath)),
+            this.watcher.onDidCreate(uri => this.enqueue(uri.fsPath)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('localComment.reconcile.intervalMinutes')) {
+                    this.scheduleInterval();
+                }
+            }),
+            this.output,
+            this._onDidReconcile
+        );
+
+        this.scheduleInterval();
+        setTimeout(() => this.reconcileModified(), CommentReconciler.STARTUP_DELAY);
+    }
+
+    /**
+     * 定时任务的间隔由 localComment.reconcile.intervalMinutes 配置，0 表示关闭
+     */
+    private scheduleInterval(): void {
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+            this.intervalTimer = undefined;
+        }
+        const minutes = vscode.workspace.getConfiguration('localComment').get<number>('reconcile.intervalMinutes', 10);
+        if (minutes > 0) {
+            this.intervalTimer = setInterval(() => this.reconcileModified(), minutes * 60 * 1000);
+        }
+    }
+
+    /**
+     * 立即重新匹配所有有注释的文件，并显示日志
+     */
+    public async reconcileAll(): Promise<void> {
+        this.output.show(true);
+        await this.reconcile(Object.keys(this.commentManager.getAllComments()), true);
+    }
+
+    private enqueue(filePath: string): void {
+        // 只处理有注释且未在编辑器中打开的文件
+        if (!this.commentManager.getAllComments()[filePath] || this.isOpen(filePath)) {
+            return;
+        }
+        this.pendingFiles.add(filePath);
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            const filePaths = [...this.pendingFiles];
+            this.pendingFiles.clear();
+            this.reconcile(filePaths);
+        }, CommentReconciler.DEBOUNCE_DELAY);
+    }
+
+    /**
+     * 重新匹配修改时间与上次记录不同的文件，用于启动时和定时任务
+     */
+    private reconcileModified(): Promise<void> {
+        const filePaths = Object.keys(this.commentManager.getAllComments()).filter(filePath => {
+            if (this.isOpen(filePath)) {
+                return false;
+            }
+            const mtime = this.getMtime(filePath);
+            return mtime !== undefined && mtime !== this.reconciledMtimes.get(filePath);
+        });
+        return this.reconcile(filePaths);
+    }
+
+    /**
+     * 依次重新匹配文件中的注释；上一轮没有结束时排队执行
+     * @param includeOpen 是否包括已打开的文件
+     */
+    private reconcile(filePaths: string[], includeOpen: boolean = false): Promise<void> {
+        this.running = this.running.then(async () => {
+            let changed = false;
+            for (const filePath of filePaths) {
+                if (!includeOpen && this.isOpen(filePath)) {
+                    continue;
+                }
+                try {
+                    const mtime = this.getMtime(filePath);
+                    const result = await this.commentManager.reconcileFile(filePath);
+                    if (mtime !== undefined) {
+                        this.reconciledMtimes.set(filePath, mtime);
+                    }
+                    if (result && this.log(filePath, result)) {
+                        changed = true;
+                    }
+                } catch (error) {
+                    console.error(`重新匹配 ${filePath} 中的注释时发生错误:`, error);
+                }
+            }
+            if (changed) {
+                this._onDidReconcile.fire();
+            }
+        });
+        return this.running;
+    }
+
+    /**
+     * 记录移动与无法匹配的注释
+     * @returns 是否有注释的状态发生变化
+     */
+    private log(filePath: string, result: ReconcileResult): boolean {
+        const relativePath = vscode.workspace.asRelativePath(filePath);
+        const summary = (content: string) => content.split('\n')[0].substring(0, 40);
+        const time = new Date().toLocaleString();
+        let changed = result.moved.length > 0;
+
+        for (const { comment, from } of result.moved) {
+            this.output.appendLine(`[${time}] 移动 ${relativePath}: 第 ${from + 1} 行 → 第 ${comment.line + 1} 行 "${summary(comment.content)}"`);
+        }
+        const lostIds = new Set(result.lost.map(comment => comment.id));
+        for (const comment of result.lost) {
+            if (!this.lostComments.has(comment.id)) {
+                this.lostComments.add(comment.id);
+                this.output.appendLine(`[${time}] 无法匹配 ${relativePath}: 原第 ${comment.line + 1} 行 "${summary(comment.content)}"（代码: ${comment.lineContent}）`);
+                changed = true;
+            }
+        }
+        // 之前无法匹配、现在又找到的注释
+        for (const comment of this.commentManager.getAllComments()[filePath] || []) {
+            if (this.lostComments.has(comment.id) && !lostIds.has(comment.id)) {
+                this.lostComments.delete(comment.id);
+                this.output.appendLine(`[${time}] 重新匹配 ${relativePath}: 第 ${comment.line + 1} 行 "${summary(comment.content)}"`);
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    private isOpen(filePath: string): boolean {
+        return vscode.workspace.textDocuments.some(doc => doc.uri.fsPath === filePath);
+    }
+
+    private getMtime(filePath: string): number | undefined {
+        try {
+            return fs.statSync(filePath).mtimeMs;
+        } catch {
+            return undefined;
+        }
+    }
+
+    public dispose(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommentManager, LocalComment } from './commentManager';
+import { AnchorCandidate } from './commentMatcher';
+import { findWorkspaceFiles, getSearchKeywords, readFileSource } from './workspaceFiles';
+import { parseTags } from './core/tagParser';
+
+interface Relocation {
+    filePath: string;
+    comment: LocalComment;
+    targetPath: string;
+    candidate: AnchorCandidate;
+}
+
+/**
+ * 跨文件迁移 - 代码被移动到其他文件（如把函数提取到新模块）后，在后台为无法匹配的注释查找新位置并提示迁移
+ *
+ * 新出现的无法匹配的注释会在整个工作区中查找一次，之后只在有改动的文件中查找
+ */
+export class CommentRelocator implements vscode.Disposable {
+    private timer: NodeJS.Timeout | undefined;
+    private running = false;
+    private searchedComments: Set<string> = new Set(); // 已在整个工作区中查找过的注释ID
+    private dismissedComments: Set<string> = new Set(); // 用户拒绝迁移的注释ID，本次会话中不再提示
+    private proposedComments: Set<string> = new Set(); // 提示尚未处理的注释ID
+    private changedFiles: Set<string> = new Set(); // 上次查找以来有改动的文件
+    private disposables: vscode.Disposable[] = [];
+    private _onDidRelocate = new vscode.EventEmitter<void>();
+    readonly onDidRelocate: vscode.Event<void> = this._onDidRelocate.event;
+
+    private static readonly DELAY = 3000; // 编辑停止后多久开始查找
+
+    constructor(private commentManager: CommentManager) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+                    this.changedFiles.add(event.document.uri.fsPath);
+                    this.schedule();
+                }
+            }),
+            vscode.workspace.onDidCreateFiles(event => {
+                event.files.forEach(uri => this.changedFiles.add(uri.fsPath));
+                this.schedule();
+            }),
+            this._onDidRelocate
+        );
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('localComment').get<boolean>('relocation.enabled', true);
+    }
+
+    private schedule(): void {
+        if (!this.isEnabled()) {
+            return;
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.run();
+        }, CommentRelocator.DELAY);
+    }
+
+    private async run(): Promise<void> {
+        // 上一轮查找还没有结束时不开始新的一轮，改动的文件留到下一轮
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        try {
+            const changedFiles = [...this.changedFiles];
+            this.changedFiles.clear();
+
+            const orphans = this.commentManager.findUnmatchedComments()
+                .filter(({ comment }) => !this.dismissedComments.has(comment.id) && !this.proposedComments.has(comment.id));
+            for (const { filePath, comment } of orphans) {
+                const fullSearch = !this.searchedComments.has(comment.id);
+                const relocation = await this.findRelocation(filePath, comment, changedFiles, fullSearch);
+                this.searchedComments.add(comment.id);
+                if (relocation) {
+                    // 提示可能一直留在通知中心，不等待用户处理
+                    this.proposedComments.add(comment.id);
+                    this.propose(relocation).finally(() => this.proposedComments.delete(comment.id));
+                }
+            }
+        } catch (error) {
+            console.error('跨文件查找注释位置时发生错误:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * 在其他文件中查找注释的代码，有改动和已打开的文件优先
+     * @param fullSearch 为 false 时只在有改动的文件中查找
+     */
+    private async findRelocation(filePath: string, comment: LocalComment, changedFiles: string[], fullSearch: boolean): Promise<Relocation | undefined> {
+        let filePaths = changedFiles;
+        if (fullSearch) {
+            const openFiles = vscode.workspace.textDocuments
+                .filter(doc => doc.uri.scheme === 'file')
+                .map(doc => doc.uri.fsPath);
+            const workspaceFiles = (await findWorkspaceFiles()).map(uri => uri.fsPath);
+            filePaths = [...new Set([...changedFiles, ...openFiles, ...workspaceFiles])];
+        }
+
+        const keywords = getSearchKeywords(comment);
+        let best: Relocation | undefined;
+        for (const [index, targetPath] of filePaths.entries()) {
+            if (targetPath === filePath) {
+                continue;
+            }
+            if (index % 50 === 49) {
+                // 让出事件循环，避免后台查找影响编辑
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+
+            const source = readFileSource(targetPath, keywords);
+            const candidate = source && this.commentManager.findRelocationCandidate(comment, source);
+            if (candidate && (!best || candidate.contextScore > best.candidate.contextScore)) {
+                best = { filePath, comment, targetPath, candidate };
+                if (candidate.contextScore === 1) {
+                    break;
+                }
+            }
+        }
+        return best;
+    }
+
+    private async propose(relocation: Relocation): Promise<void> {
+        const { filePath, comment, targetPath, candidate } = relocation;
+        const summary = comment.content.split('\n')[0].substring(0, 40);
+        const target = `${vscode.workspace.asRelativePath(targetPath)} 第 ${candidate.line + 1} 行`;
+        // 注释中声明的标签随注释一起迁移
+        const declarations = parseTags(comment.content).filter(tag => tag.kind === 'declaration').map(tag => tag.text);
+        const tagNote = declarations.length > 0 ? `，其中声明的标签 ${[...new Set(declarations)].join(' ')} 也会一起迁移` : '';
+
+        while (true) {
+            const choice = await vscode.window.showInformationMessage(
+                `${path.basename(filePath)} 中的注释"${summary}"对应的代码似乎已移动到 ${target}，是否迁移注释${tagNote}？`,
+                '迁移', '查看位置', '忽略'
+            );
+
+            if (choice === '查看位置') {
+                const document = await vscode.workspace.openTextDocument(targetPath);
+                const range = document.lineAt(candidate.line).range;
+                await vscode.window.showTextDocument(document, { selection: range, preview: true });
+                continue;
+            }
+            if (choice === '迁移') {
+                // 提示期间文件可能又被修改，迁移前重新查找一次
+                const source = readFileSource(targetPath);
+                const current = source && this.commentManager.findRelocationCandidate(comment, source);
+                if (!current) {
+                    vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(targetPath)} 中已找不到注释对应的代码`);
+                } else if (await this.commentManager.reanchorComment(filePath, comment.id, targetPath, current.line)) {
+                    console.log(`✅ 注释 ${comment.id} 已从 ${filePath} 迁移到 ${target}`);
+                    this._onDidRelocate.fire();
+                }
+            } else {
+                // 忽略或关闭提示都视为拒绝，本次会话中不再提示
+                this.dismissedComments.add(comment.id);
+            }
+            return;
+        }
+    }
+
+    public dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileComments } from './commentManager';
+import {
+    CURRENT_SCHEMA_VERSION,
+    MigrationContext,
+    ProjectMetadata,
+    StorageEnvelope,
+    getSchemaVersion,
+    runMigrations
+} from './storageMigrations';
+
+/**
+ * 存储文件中的注释数据：当前注释与已删除文件的归档注释
+ */
+export interface StoragePayload {
+    comments: FileComments;
+    archived: FileComments;
+}
+
+export interface StorageReadResult {
+    status: 'missing' | 'ok' | 'corrupt';
+    data: StoragePayload;
+    project?: ProjectMetadata;
+    migrated?: boolean; // 是否执行了版本迁移，迁移后需要重新写入
+    quarantinedFile?: string; // 损坏文件被隔离后的路径
+}
+
+export interface BackupInfo {
+    file: string;
+    timestamp: number;
+    fileCount: number;
+    commentCount: number;
+    label?: string; // 特殊备份的说明，如迁移前备份
+}
+
+/**
+ * 注释存储 - 负责存储文件的原子写入、滚动备份、版本迁移、加载校验与损坏隔离
+ */
+export class CommentStorage {
+    // 两次自动备份之间的最小间隔，避免频繁保存把备份全部挤成几秒内的快照
+    private static readonly BACKUP_INTERVAL = 10 * 60 * 1000;
+    // 迁移前备份的文件名前缀，不参与滚动清理
+    private static readonly MIGRATION_BACKUP_PREFIX = 'pre-migration-v';
+
+    // 存储文件 -> 最近一次读写时的注释内容与修改时间，用于跳过无变化的写入、识别其他窗口的修改以及三方合并
+    // 迁移后的数据没有 content，保证下一次保存一定会写入
+    private synced: Map<string, { content?: string; mtime: number }> = new Map();
+
+    constructor(private getBackupCount: () => number) {}
+
+    /**
+     * 读取、迁移并校验存储文件，损坏的文件会被隔离而不是被后续保存覆盖
+     */
+    public read(storageFile: string, context: MigrationContext): StorageReadResult {
+        this.ensureDir(path.dirname(storageFile));
+
+        if (!fs.existsSync(storageFile)) {
+            return { status: 'missing', data: { comments: {}, archived: {} } };
+        }
+
+        const content = fs.readFileSync(storageFile, 'utf8');
+        const parsed = this.parse(content, context);
+        if (!parsed) {
+            const quarantinedFile = this.quarantine(storageFile);
+            return { status: 'corrupt', data: { comments: {}, archived: {} }, quarantinedFile };
+        }
+
+        if (parsed.applied.length > 0) {
+            // 迁移会改写文件，先保留一份原始文件
+            this.createBackup(storageFile, `${CommentStorage.MIGRATION_BACKUP_PREFIX}${parsed.fromVersion}`);
+            console.log(`✅ ${path.basename(storageFile)} 已从版本 ${parsed.fromVersion} 迁移到版本 ${parsed.envelope.schemaVersion}: ` +
+                parsed.applied.map(migration => migration.description).join('; '));
+        }
+        this.synced.set(storageFile, {
+            content: parsed.applied.length > 0 ? undefined : this.serializePayload(parsed.envelope),
+            mtime: fs.statSync(storageFile).mtimeMs
+        });
+
+        if (parsed.envelope.schemaVersion > CURRENT_SCHEMA_VERSION) {
+            console.warn(`⚠️ ${path.basename(storageFile)} 由更新版本的插件写入（版本 ${parsed.envelope.schemaVersion}），部分信息可能无法识别`);
+        }
+
+        return {
+            status: 'ok',
+            data: { comments: parsed.envelope.comments, archived: parsed.envelope.archived },
+            project: parsed.envelope.project,
+            migrated: parsed.applied.length > 0
+        };
+    }
+
+    /**
+     * 只读地解析存储文件（含迁移），不做隔离和备份，用于统计或关联其他项目的数据
+     */
+    public peek(storageFile: string, context: MigrationContext): StorageEnvelope | undefined {
+        try {
+            return this.parse(fs.readFileSync(storageFile, 'utf8'), context)?.envelope;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 原子写入：先写临时文件再重命名，写入前按间隔为旧文件创建备份
+     *
+     * 调用方需要先通过 isModifiedExternally 确认文件没有被其他窗口修改，否则会覆盖对方的内容
+     * @returns 内容未变化而跳过写入时返回 false
+     */
+    public write(storageFile: string, data: StoragePayload, project: ProjectMetadata): boolean {
+        const commentsContent = this.serializePayload(data);
+        if (this.synced.get(storageFile)?.content === commentsContent) {
+            return false; // 内容未变化，跳过写入
+        }
+
+        this.ensureDir(path.dirname(storageFile));
+
+        if (fs.existsSync(storageFile)) {
+            this.backupIfDue(storageFile);
+        }
+
+        const envelope: StorageEnvelope = {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            project: { ...project, updatedAt: Date.now() },
+            comments: data.comments,
+            archived: data.archived
+        };
+
+        const tempFile = `${storageFile}.tmp-${process.pid}`;
+        fs.writeFileSync(tempFile, JSON.stringify(envelope, null, 2));
+        fs.renameSync(tempFile, storageFile);
+        this.markSynced(storageFile, data);
+        return true;
+    }
+
+    /**
+     * 存储文件在上一次读写之后是否被其他窗口或进程修改过（按修改时间判断）
+     */
+    public isModifiedExternally(storageFile: string): boolean {
+        if (!fs.existsSync(storageFile)) {
+            return false;
+        }
+        const synced = this.synced.get(storageFile);
+        return !synced || synced.mtime !== fs.statSync(storageFile).mtimeMs;
+    }
+
+    /**
+     * 获取上一次同步时的内容，作为三方合并的基准；从未同步或迁移后尚未写入时返回 undefined
+     */
+    public getSyncedPayload(storageFile: string): StoragePayload | undefined {
+        const content = this.synced.get(storageFile)?.content;
+        return content ? JSON.parse(content) as StoragePayload : undefined;
+    }
+
+    /**
+     * 记录存储文件当前的内容与修改时间已经与内存同步
+     */
+    public markSynced(storageFile: string, data: StoragePayload): void {
+        this.synced.set(storageFile, {
+            content: this.serializePayload(data),
+            mtime: fs.statSync(storageFile).mtimeMs
+        });
+    }
+
+    /**
+     * 使写入缓存失效，下一次 write 一定会落盘
+     */
+    public invalidate(storageFile: string): void {
+        this.synced.delete(storageFile);
+    }
+
+    /**
+     * 列出存储文件的所有备份，最新的在前；无法解析的备份会被跳过
+     */
+    public listBackups(storageFile: string, context: MigrationContext): BackupInfo[] {
+        const backupDir = this.getBackupDir(storageFile);
+        if (!fs.existsSync(backupDir)) {
+            return [];
+        }
+
+        const backups: BackupInfo[] = [];
+        for (const file of fs.readdirSync(backupDir).filter(name => name.endsWith('.json'))) {
+            const backupFile = path.join(backupDir, file);
+            const envelope = this.peek(backupFile, context);
+            if (!envelope) {
+                continue;
+            }
+            backups.push({
+                file: backupFile,
+                timestamp: fs.statSync(backupFile).mtimeMs,
+                fileCount: Object.keys(envelope.comments).length,
+                commentCount: Object.values(envelope.comments).reduce((sum, comments) => sum + comments.length, 0),
+                label: file.startsWith(CommentStorage.MIGRATION_BACKUP_PREFIX)
+                    ? `版本 ${file.substring(CommentStorage.MIGRATION_BACKUP_PREFIX.length).split('-')[0]} 迁移前`
+                    : undefined
+            });
+        }
+
+        return backups.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * 用备份覆盖存储文件，覆盖前为当前文件再做一次备份
+     */
+    public restore(storageFile: string, backupFile: string): void {
+        if (fs.existsSync(storageFile)) {
+            this.createBackup(storageFile);
+        }
+
+        const tempFile = `${storageFile}.tmp-${process.pid}`;
+        fs.copyFileSync(backupFile, tempFile);
+        fs.renameSync(tempFile, storageFile);
+        this.invalidate(storageFile);
+    }
+
+    /**
+     * 解析、迁移并校验存储内容，结构不合法时返回 undefined
+     */
+    private parse(content: string, context: MigrationContext) {
+        try {
+            const raw = JSON.parse(content);
+            const fromVersion = getSchemaVersion(raw);
+            if (fromVersion === 0 && !this.isValidComments(raw)) {
+                return undefined;
+            }
+
+            const { data: envelope, applied } = runMigrations(raw, context);
+            if (!this.isValidEnvelope(envelope)) {
+                return undefined;
+            }
+            return { envelope, applied, fromVersion };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private isValidEnvelope(data: any): data is StorageEnvelope {
+        return !!data && typeof data === 'object' &&
+            typeof data.schemaVersion === 'number' &&
+            !!data.project && typeof data.project === 'object' &&
+            this.isValidComments(data.comments) &&
+            this.isValidComments(data.archived);
+    }
+
+    private serializePayload(data: StoragePayload): string {
+        return JSON.stringify({ comments: data.comments, archived: data.archived });
+    }
+
+    private isValidComments(data: unknown): data is FileComments {
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return false;
+        }
+
+        return Object.values(data as Record<string, unknown>).every(comments =>
+            Array.isArray(comments) && comments.every(comment =>
+                comment && typeof comment === 'object' &&
+                typeof comment.id === 'string' &&
+                typeof comment.line === 'number' &&
+                typeof comment.content === 'string'
+            )
+        );
+    }
+
+    /**
+     * 将损坏的存储文件重命名隔离，保留原始内容以便人工恢复
+     */
+    private quarantine(storageFile: string): string {
+        const quarantinedFile = `${storageFile}.corrupt-${this.formatTimestamp(new Date())}`;
+        fs.renameSync(storageFile, quarantinedFile);
+        this.invalidate(storageFile);
+        console.error(`❌ 注释存储文件已损坏，已隔离到 ${quarantinedFile}`);
+        return quarantinedFile;
+    }
+
+    private backupIfDue(storageFile: string): void {
+        try {
+            const latest = this.listRotatingBackupFiles(storageFile).pop();
+            if (latest && Date.now() - fs.statSync(latest).mtimeMs < CommentStorage.BACKUP_INTERVAL) {
+                return;
+            }
+            // 只备份校验通过的文件，避免把损坏的内容当作有效快照
+            if (this.parse(fs.readFileSync(storageFile, 'utf8'), { projectName: '' })) {
+                this.createBackup(storageFile);
+            }
+        } catch (error) {
+            console.warn('⚠️ 创建注释备份失败:', error);
+        }
+    }
+
+    private createBackup(storageFile: string, prefix?: string): void {
+        const backupDir = this.getBackupDir(storageFile);
+        this.ensureDir(backupDir);
+        const timestamp = this.formatTimestamp(new Date());
+        const fileName = prefix ? `${prefix}-${timestamp}.json` : `${timestamp}.json`;
+        fs.copyFileSync(storageFile, path.join(backupDir, fileName));
+        this.pruneBackups(storageFile);
+    }
+
+    private pruneBackups(storageFile: string): void {
+        const backupFiles = this.listRotatingBackupFiles(storageFile);
+        const excess = backupFiles.length - Math.max(1, this.getBackupCount());
+        for (const file of backupFiles.slice(0, Math.max(0, excess))) {
+            fs.unlinkSync(file);
+        }
+    }
+
+    /**
+     * 按时间顺序（旧的在前）列出参与滚动的备份文件，文件名本身就是时间戳
+     */
+    private listRotatingBackupFiles(storageFile: string): string[] {
+        const backupDir = this.getBackupDir(storageFile);
+        if (!fs.existsSync(backupDir)) {
+            return [];
+        }
+        return fs.readdirSync(backupDir)
+            .filter(name => name.endsWith('.json') && !name.startsWith(CommentStorage.MIGRATION_BACKUP_PREFIX))
+            .sort()
+            .map(name => path.join(backupDir, name));
+    }
+
+    /**
+     * 备份目录与项目存储文件相邻：projects/backups/<项目文件名>/
+     */
+    private getBackupDir(storageFile: string): string {
+        return path.join(path.dirname(storageFile), 'backups', path.basename(storageFile, '.json'));
+    }
+
+    private formatTimestamp(date: Date): string {
+        return date.toISOString().replace(/[:.]/g, '-');
+    }
+
+    private ensureDir(dir: string): void {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    }
+}
@@ -0,0 +1,177 @@
+import * as path from 'path';
+
+/**
+ * 比较代码快照时忽略的格式差异，Prettier 等格式化工具只改变这些内容时注释仍能匹配
+ */
+export interface NormalizationOptions {
+    ignoreWhitespace: boolean; // 忽略空白的多少，以及符号两侧的空白
+    ignoreTrailingPunctuation: boolean; // 忽略行尾的分号、逗号以及右括号前的尾随逗号
+    ignoreQuoteStyle: boolean; // 单引号与双引号视为相同
+    ignoreInlineComments: boolean; // 忽略行内的代码注释（整行都是注释时不忽略）
+}
+
+// 与 package.json 中 localComment.matching.normalization 的默认值保持一致
+export const DEFAULT_NORMALIZATION: NormalizationOptions = {
+    ignoreWhitespace: true,
+    ignoreTrailingPunctuation: true,
+    ignoreQuoteStyle: true,
+    ignoreInlineComments: true
+};
+
+// 严格模式：去掉首尾空白后必须完全一致
+export const STRICT_NORMALIZATION: NormalizationOptions = {
+    ignoreWhitespace: false,
+    ignoreTrailingPunctuation: false,
+    ignoreQuoteStyle: false,
+    ignoreInlineComments: false
+};
+
+interface CommentSyntax {
+    line: string[]; // 行注释的起始符号
+    block?: [string, string]; // 块注释的起止符号，只处理在同一行内的部分
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: ['/*', '*/'] };
+const HASH_STYLE: CommentSyntax = { line: ['#'] };
+const DASH_STYLE: CommentSyntax = { line: ['--'] };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: ['<!--', '-->'] };
+
+// 按 VS Code 的 languageId 区分注释语法，不在表中的语言不忽略行内注释
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+    typescript: C_STYLE,
+    typescriptreact: C_STYLE,
+    javascript: C_STYLE,
+    javascriptreact: C_STYLE,
+    java: C_STYLE,
+    c: C_STYLE,
+    cpp: C_STYLE,
+    csharp: C_STYLE,
+    go: C_STYLE,
+    rust: C_STYLE,
+    swift: C_STYLE,
+    kotlin: C_STYLE,
+    scala: C_STYLE,
+    dart: C_STYLE,
+    php: { line: ['//', '#'], block: ['/*', '*/'] },
+    jsonc: C_STYLE,
+    scss: C_STYLE,
+    less: C_STYLE,
+    css: { line: [], block: ['/*', '*/'] },
+    python: HASH_STYLE,
+    shellscript: HASH_STYLE,
+    ruby: HASH_STYLE,
+    perl: HASH_STYLE,
+    r: HASH_STYLE,
+    yaml: HASH_STYLE,
+    toml: HASH_STYLE,
+    makefile: HASH_STYLE,
+    dockerfile: HASH_STYLE,
+    powershell: HASH_STYLE,
+    elixir: HASH_STYLE,
+    julia: HASH_STYLE,
+    sql: { line: ['--'], block: ['/*', '*/'] },
+    lua: DASH_STYLE,
+    haskell: DASH_STYLE,
+    html: MARKUP_STYLE,
+    xml: MARKUP_STYLE,
+    vue: { line: ['//'], block: ['<!--', '-->'] },
+    markdown: MARKUP_STYLE
+};
+
+// 未打开的文件没有 languageId，按扩展名推断
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+    '.java': 'java', '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cc': 'cpp', '.cxx': 'cpp', '.hpp': 'cpp',
+    '.cs': 'csharp', '.go': 'go', '.rs': 'rust', '.swift': 'swift', '.kt': 'kotlin', '.kts': 'kotlin',
+    '.scala': 'scala', '.dart': 'dart', '.php': 'php', '.jsonc': 'jsonc', '.json': 'json',
+    '.css': 'css', '.scss': 'scss', '.less': 'less',
+    '.py': 'python', '.sh': 'shellscript', '.bash': 'shellscript', '.zsh': 'shellscript',
+    '.rb': 'ruby', '.pl': 'perl', '.r': 'r', '.yaml': 'yaml', '.yml': 'yaml', '.toml': 'toml',
+    '.ps1': 'powershell', '.ex': 'elixir', '.exs': 'elixir', '.jl': 'julia',
+    '.sql': 'sql', '.lua': 'lua', '.hs': 'haskell',
+    '.html': 'html', '.htm': 'html', '.xml': 'xml', '.vue': 'vue', '.md': 'markdown'
+};
+
+export function guessLanguageId(filePath: string): string | undefined {
+    const baseName = path.basename(filePath).toLowerCase();
+    if (baseName === 'makefile') {
+        return 'makefile';
+    }
+    if (baseName === 'dockerfile') {
+        return 'dockerfile';
+    }
+    return LANGUAGE_BY_EXTENSION[path.extname(baseName)];
+}
+
+/**
+ * 按选项标准化一行代码，用于比较快照与当前代码
+ * 标准化结果只用于比较，保存的快照仍是原始代码
+ */
+export function normalizeLine(text: string, options: NormalizationOptions, languageId?: string): string {
+    let normalized = text.trim();
+
+    if (options.ignoreInlineComments) {
+        const syntax = languageId ? COMMENT_SYNTAX[languageId] : undefined;
+        const stripped = syntax ? stripComments(normalized, syntax).trim() : normalized;
+        // 整行都是注释时保留原样，避免所有注释行都变成空行而互相匹配
+        if (stripped.length > 0) {
+            normalized = stripped;
+        }
+    }
+    if (options.ignoreQuoteStyle) {
+        normalized = normalized.replace(/'/g, '"');
+    }
+    if (options.ignoreWhitespace) {
+        normalized = normalized
+            .replace(/\s+/g, ' ')
+            .replace(/ ?([^\w\s$]) ?/g, '$1');
+    }
+    if (options.ignoreTrailingPunctuation) {
+        normalized = normalized
+            .replace(/,(\s*[)\]}])/g, '$1')
+            .replace(/[;,]+$/, '')
+            .trimEnd();
+    }
+    return normalized;
+}
+
+/**
+ * 去掉字符串之外的行注释与同一行内的块注释
+ */
+function stripComments(text: string, syntax: CommentSyntax): string {
+    let result = '';
+    let quote: string | undefined;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            result += char;
+            if (char === '\\' && i + 1 < text.length) {
+                result += text[++i];
+            } else if (char === quote) {
+                quote = undefined;
+            }
+            continue;
+        }
+        if (char === '"' || char === '\'' || char === '`') {
+            quote = char;
+            result += char;
+            continue;
+        }
+        if (syntax.line.some(marker => text.startsWith(marker, i))) {
+            break;
+        }
+        if (syntax.block && text.startsWith(syntax.block[0], i)) {
+            const end = text.indexOf(syntax.block[1], i + syntax.block[0].length);
+            if (end === -1) {
+                break;
+            }
+            i = end + syntax.block[1].length - 1;
+            result += ' ';
+            continue;
+        }
+        result += char;
+    }
+    return result;
+}
@@ -0,0 +1,609 @@
+import { normalizeLine } from './lineNormalizer';
+import { MatcherOptions, MatcherThresholds, resolveMatcherOptions } from './matcherSettings';
+
+/**
+ * 注释匹配的核心逻辑，不依赖 VS Code，可以直接在 Node 中运行和测试
+ */
+
+/**
+ * 按行读取的文本来源：打开的 vscode.TextDocument，或从磁盘读取的未打开文件
+ */
+export interface LineSource {
+    readonly lineCount: number;
+    readonly languageId?: string; // 用于按语言选择标准化规则，未打开的文件按扩展名推断
+    lineAt(line: number): { readonly text: string };
+}
+
+/**
+ * 将文件内容或按行拆分好的内容包装为 LineSource
+ */
+export function createLineSource(content: string | readonly string[], languageId?: string): LineSource {
+    const lines = typeof content === 'string' ? content.split(/\r?\n/) : content;
+    return {
+        lineCount: lines.length,
+        languageId,
+        lineAt: (line: number) => ({ text: lines[line] })
+    };
+}
+
+/**
+ * 匹配所需的注释字段，LocalComment 可以直接传入
+ */
+export interface AnchoredComment {
+    id: string;
+    line: number;
+    timestamp: number;
+    lineContent: string;
+    rangeContent?: string[];
+    contextBefore?: string[];
+    contextAfter?: string[];
+}
+
+export const CONTEXT_LINES = 2; // 上下文快照在锚定代码上下各记录的行数
+
+/**
+ * 截取范围内每一行的内容快照（与 lineContent 一样去掉首尾空白）
+ */
+export function captureRangeContent(source: LineSource, startLine: number, endLine: number): string[] {
+    const lines: string[] = [];
+    for (let i = startLine; i <= endLine && i < source.lineCount; i++) {
+        lines.push(source.lineAt(i).text.trim());
+    }
+    return lines;
+}
+
+/**
+ * 记录锚定代码上下各 CONTEXT_LINES 行的快照，由近到远排列，文件开头或结尾处不足时只记录存在的行
+ */
+export function captureContext(source: LineSource, startLine: number, endLine: number): { contextBefore: string[]; contextAfter: string[] } {
+    const contextBefore: string[] = [];
+    const contextAfter: string[] = [];
+    for (let i = 1; i <= CONTEXT_LINES; i++) {
+        if (startLine - i >= 0) {
+            contextBefore.push(source.lineAt(startLine - i).text.trim());
+        }
+        if (endLine + i < source.lineCount) {
+            contextAfter.push(source.lineAt(endLine + i).text.trim());
+        }
+    }
+    return { contextBefore, contextAfter };
+}
+
+/**
+ * 重新定位注释时的候选位置
+ */
+export interface AnchorCandidate {
+    line: number;
+    score: number; // 综合得分（0-1之间）
+    similarity: number; // 代码与快照的相似度
+    contextScore: number; // 上下文吻合程度
+}
+
+/**
+ * 匹配过程的记录，用于解释注释为什么匹配、移动或被隐藏
+ */
+export interface MatchTrace {
+    commentId: string;
+    matchedLine: number;
+    anchor: string[]; // 标准化后的锚定代码
+    isDistinctive: boolean; // 锚定代码本身是否有足够的特征性
+    isContextDistinctive: boolean; // 上下文是否有足够的特征性
+    searchRange?: number;
+    startLine?: number;
+    endLine?: number;
+    candidates: TraceCandidate[]; // 搜索范围内代码一致的行
+    outcome: string;
+}
+
+export interface TraceCandidate {
+    line: number;
+    contextScore?: number;
+    score?: number;
+    rejected?: string; // 未被采用的原因
+}
+
+/**
+ * 按文档语言准备好的匹配输入：标准化后的行（每行只标准化一次）与匹配阈值
+ */
+interface PreparedSource {
+    readonly lineCount: number;
+    readonly thresholds: MatcherThresholds;
+    line(index: number): string;
+    normalize(text: string): string; // 用同样的规则标准化快照中的代码
+}
+
+/**
+ * 锚点匹配器 - 负责在文档内容变化时智能匹配注释位置
+ */
+export class AnchorMatcher {
+    // 用于跟踪已经被匹配的行及占用该行的注释组，防止注释误匹配到其他注释占用的行
+    // 同一行上的多条注释属于同一组，可以共享该行
+    private matchedLines: Map<number, string> = new Map();
+
+    private static readonly DISTANCE_WEIGHT = 0.1; // 距离原位置对得分的最大影响
+
+    /**
+     * @param getOptions 按语言返回标准化选项与匹配阈值，默认为 balanced 预设
+     */
+    constructor(private getOptions: (languageId?: string) => MatcherOptions = () => resolveMatcherOptions()) {}
+    
+    /**
+     * 批量匹配所有注释，确保不会有重复匹配
+     * @param trace 记录其中一条注释的匹配过程
+     */
+    public batchMatchComments(document: LineSource, comments: AnchoredComment[], trace?: MatchTrace): Map<string, number> {
+        // 重置匹配状态
+        this.matchedLines.clear();
+        const results = new Map<string, number>();
+        this.matchInOrder(this.prepare(document), comments, results, trace);
+        return results;
+    }
+
+    /**
+     * 增量匹配：previous 中没有标记为 dirty 的注释保留原结果并占用对应的行，只重新匹配 dirty 的注释
+     */
+    public rematchComments(document: LineSource, comments: AnchoredComment[], previous: Map<string, number>, dirty: Set<string>): Map<string, number> {
+        this.matchedLines.clear();
+        const results = new Map<string, number>();
+        const pending: AnchoredComment[] = [];
+        for (const comment of comments) {
+            const line = previous.get(comment.id);
+            if (line === undefined || dirty.has(comment.id)) {
+                pending.push(comment);
+                continue;
+            }
+            results.set(comment.id, line);
+            if (line >= 0) {
+                this.matchedLines.set(line, this.getAnchorKey(comment));
+            }
+        }
+        this.matchInOrder(this.prepare(document), pending, results);
+        return results;
+    }
+
+    /**
+     * 按优先级逐个匹配注释，匹配成功的行被占用
+     */
+    private matchInOrder(source: PreparedSource, comments: AnchoredComment[], results: Map<string, number>, trace?: MatchTrace): void {
+        // 按照匹配优先级排序：
+        // 1. 原始行号仍然匹配的注释（最高优先级）
+        // 2. 按照注释创建时间排序（较早的注释优先级更高）
+        // 原始位置是否仍然匹配（代码和上下文都一致）在排序前算好，避免在比较函数中重复读取文档
+        const originalMatches = new Map(comments.map(comment => [
+            comment.id,
+            this.isExactMatch(source, comment, comment.line) && this.scoreContext(source, comment, comment.line) === 1
+        ]));
+        const sortedComments = [...comments].sort((a, b) => {
+            const aOriginalMatch = originalMatches.get(a.id);
+            const bOriginalMatch = originalMatches.get(b.id);
+            
+            if (aOriginalMatch && !bOriginalMatch) return -1;
+            if (!aOriginalMatch && bOriginalMatch) return 1;
+            
+            // 如果都匹配或都不匹配，按时间戳排序（早的优先）
+            return a.timestamp - b.timestamp;
+        });
+        
+        // 逐个匹配注释
+        for (const comment of sortedComments) {
+            const matchedLine = this.findMatchingLineInternal(source, comment, trace?.commentId === comment.id ? trace : undefined);
+            results.set(comment.id, matchedLine);
+            
+            // 如果匹配成功，标记该行已被占用
+            if (matchedLine >= 0) {
+                this.matchedLines.set(matchedLine, this.getAnchorKey(comment));
+            }
+        }
+    }
+    
+    /**
+     * 解释一条注释的匹配过程；与批量匹配的顺序相同，其他注释占用的行同样生效
+     */
+    public explainMatch(document: LineSource, comments: AnchoredComment[], commentId: string): MatchTrace {
+        const trace: MatchTrace = {
+            commentId,
+            matchedLine: -1,
+            anchor: [],
+            isDistinctive: false,
+            isContextDistinctive: false,
+            candidates: [],
+            outcome: ''
+        };
+        this.batchMatchComments(document, comments, trace);
+        return trace;
+    }
+
+    /**
+     * 智能匹配注释对应的行号（单个注释匹配，用于向后兼容）
+     */
+    public findMatchingLine(document: LineSource, comment: AnchoredComment): number {
+        // 重置匹配状态（单个匹配时）
+        this.matchedLines.clear();
+        return this.findMatchingLineInternal(this.prepare(document), comment);
+    }
+    
+    /**
+     * 内部匹配逻辑：在搜索范围内找出代码完全一致的候选行，按上下文吻合程度和距离打分
+     */
+    private findMatchingLineInternal(document: PreparedSource, comment: AnchoredComment, trace?: MatchTrace): number {
+        const { thresholds } = document;
+        // 范围注释用整个范围的非空行判断特征性，逐行比较在 isExactMatch 中完成
+        const lineContent = this.getAnchorLines(comment).map(line => line.trim()).filter(line => line.length > 0).join(' ');
+        if (trace) {
+            trace.anchor = this.getAnchorLines(comment).map(line => document.normalize(line));
+        }
+        
+        // 如果没有保存的行内容，严格隐藏注释
+        if (!lineContent || lineContent.length === 0) {
+            return this.conclude(trace, -1, '注释缺少代码内容快照，无法匹配');
+        }
+        
+        // 特征性不足的行（如 return result;）只有在上下文也吻合时才认为匹配
+        const contextContent = [...(comment.contextBefore || []), ...(comment.contextAfter || [])]
+            .filter(line => line.length > 0)
+            .join(' ');
+        const isDistinctive = this.hasEnoughCharacteristics(lineContent, thresholds);
+        const isContextDistinctive = this.hasEnoughCharacteristics(contextContent, thresholds);
+        if (trace) {
+            trace.isDistinctive = isDistinctive;
+            trace.isContextDistinctive = isContextDistinctive;
+        }
+        if (!isDistinctive && !isContextDistinctive) {
+            return this.conclude(trace, -1, '锚定的代码及其上下文特征性都不足，为避免误匹配而隐藏');
+        }
+
+        // 在有限范围内搜索，上下文越有特征，可以搜索的范围越大
+        const searchRange = this.calculateSearchRange(document.lineCount, `${lineContent} ${contextContent}`, thresholds);
+
+        const startLine = Math.max(0, comment.line - searchRange);
+        const endLine = Math.min(document.lineCount - 1, comment.line + searchRange);
+        if (trace) {
+            Object.assign(trace, { searchRange, startLine, endLine });
+        }
+
+        let bestLine = -1;
+        let bestScore = -Infinity;
+        let bestContextScore = 0;
+        for (let i = startLine; i <= endLine; i++) {
+            if (!this.isExactMatch(document, comment, i)) {
+                continue;
+            }
+            if (this.isLineTaken(i, comment)) {
+                trace?.candidates.push({ line: i, rejected: '该行已被其他注释占用' });
+                continue;
+            }
+
+            const contextScore = this.scoreContext(document, comment, i);
+            if (!isDistinctive && contextScore < thresholds.minContextScore) {
+                trace?.candidates.push({ line: i, contextScore, rejected: `代码特征性不足，上下文吻合程度低于 ${Math.round(thresholds.minContextScore * 100)}%` });
+                continue;
+            }
+
+            // 上下文吻合程度优先，距离原位置越近越好，距离的影响小于一行上下文的差异
+            const score = contextScore - (Math.abs(i - comment.line) / (searchRange + 1)) * AnchorMatcher.DISTANCE_WEIGHT;
+            trace?.candidates.push({ line: i, contextScore, score });
+            if (score > bestScore) {
+                bestScore = score;
+                bestContextScore = contextScore;
+                bestLine = i;
+            }
+        }
+
+        if (bestLine === -1) {
+            // 严格模式：不进行全文搜索和模糊匹配，避免误匹配到完全不相关的代码行
+            return this.conclude(trace, -1, `原位置 ±${searchRange} 行内没有可用的一致代码，为避免误匹配而隐藏`);
+        }
+        if (bestLine !== comment.line) {
+            return this.conclude(trace, bestLine, `从第 ${comment.line + 1} 行移动到第 ${bestLine + 1} 行，该行得分最高（上下文吻合 ${Math.round(bestContextScore * 100)}%）`);
+        }
+        return this.conclude(trace, bestLine, `原位置的代码仍然一致（上下文吻合 ${Math.round(bestContextScore * 100)}%）`);
+    }
+
+    /**
+     * 记录匹配结论并返回匹配的行号
+     */
+    private conclude(trace: MatchTrace | undefined, line: number, outcome: string): number {
+        if (trace) {
+            trace.matchedLine = line;
+            trace.outcome = outcome;
+        }
+        return line;
+    }
+
+    /**
+     * 在整个文件中为注释查找候选位置，按代码相似度和上下文综合排序
+     * 用于重新定位无法自动匹配的注释，不要求代码完全一致
+     */
+    public rankCandidates(document: LineSource, comment: AnchoredComment, limit: number = 10): AnchorCandidate[] {
+        const source = this.prepare(document);
+        const anchorLines = this.getAnchorLines(comment).map(line => source.normalize(line));
+        const hasContext = (comment.contextBefore || []).length + (comment.contextAfter || []).length > 0;
+        const candidates: AnchorCandidate[] = [];
+
+        for (let i = 0; i + anchorLines.length <= source.lineCount; i++) {
+            // 起始行为空的位置不作为候选，避免注释挂到空行上
+            if (source.line(i).length === 0) {
+                continue;
+            }
+
+            let similarity = 0;
+            let comparable = true;
+            for (let offset = 0; offset < anchorLines.length && comparable; offset++) {
+                const current = source.line(i + offset);
+                const target = anchorLines[offset];
+                // 长度差距过大时相似度不可能达到阈值，跳过编辑距离计算
+                const maxLength = Math.max(current.length, target.length);
+                if (maxLength > 0 && Math.min(current.length, target.length) / maxLength < source.thresholds.minCandidateSimilarity) {
+                    comparable = false;
+                    break;
+                }
+                similarity += current === target ? 1 : this.calculateSimilarity(current, target);
+            }
+            if (!comparable) {
+                continue;
+            }
+            similarity /= anchorLines.length;
+            if (similarity < source.thresholds.minCandidateSimilarity) {
+                continue;
+            }
+
+            const contextScore = hasContext ? this.scoreContext(source, comment, i) : 0;
+            const score = hasContext ? similarity * 0.7 + contextScore * 0.3 : similarity;
+            candidates.push({ line: i, score, similarity, contextScore });
+        }
+
+        return candidates
+            .sort((a, b) => b.score - a.score || Math.abs(a.line - comment.line) - Math.abs(b.line - comment.line))
+            .slice(0, limit);
+    }
+
+    /**
+     * 在另一个文件中查找与快照完全一致的代码，用于代码被移动到其他文件后迁移注释
+     * 与文件内匹配使用相同的特征性要求：特征性不足的代码必须由上下文确认
+     */
+    public findRelocationCandidate(document: LineSource, comment: AnchoredComment): AnchorCandidate | undefined {
+        const source = this.prepare(document);
+        const lineContent = this.getAnchorLines(comment).map(line => line.trim()).filter(line => line.length > 0).join(' ');
+        if (!lineContent) {
+            return undefined;
+        }
+        const isDistinctive = this.hasEnoughCharacteristics(lineContent, source.thresholds);
+
+        let best: AnchorCandidate | undefined;
+        for (let i = 0; i < source.lineCount; i++) {
+            if (!this.isExactMatch(source, comment, i)) {
+                continue;
+            }
+            const contextScore = this.scoreContext(source, comment, i);
+            if (!isDistinctive && contextScore < source.thresholds.minContextScore) {
+                continue;
+            }
+            if (!best || contextScore > best.contextScore) {
+                best = { line: i, score: contextScore, similarity: 1, contextScore };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * 计算候选位置周围的代码与保存的上下文快照的吻合程度（0-1之间）
+     * 没有上下文快照的旧注释不参与区分，所有候选得分相同
+     */
+    private scoreContext(document: PreparedSource, comment: AnchoredComment, lineIndex: number): number {
+        const contextBefore = comment.contextBefore || [];
+        const contextAfter = comment.contextAfter || [];
+        const total = contextBefore.length + contextAfter.length;
+        if (total === 0) {
+            return 1;
+        }
+
+        const endLine = lineIndex + this.getAnchorLines(comment).length - 1;
+        let matched = 0;
+        contextBefore.forEach((content, offset) => {
+            const line = lineIndex - offset - 1;
+            if (line >= 0 && document.line(line) === document.normalize(content)) {
+                matched++;
+            }
+        });
+        contextAfter.forEach((content, offset) => {
+            const line = endLine + offset + 1;
+            if (line < document.lineCount && document.line(line) === document.normalize(content)) {
+                matched++;
+            }
+        });
+        return matched / total;
+    }
+    
+    /**
+     * 检查是否为精确匹配（比较标准化后的代码）；范围注释要求从该行开始的每一行都与快照一致，作为整体移动
+     */
+    private isExactMatch(document: PreparedSource, comment: AnchoredComment, lineIndex: number): boolean {
+        const anchorLines = this.getAnchorLines(comment);
+        if (lineIndex < 0 || lineIndex + anchorLines.length > document.lineCount) {
+            return false;
+        }
+        
+        // 精确匹配：标准化后的内容必须完全一致
+        return anchorLines.every((targetLineContent, offset) =>
+            document.line(lineIndex + offset) === document.normalize(targetLineContent)
+        );
+    }
+
+    /**
+     * 该行是否已被快照不同的注释占用
+     */
+    private isLineTaken(lineIndex: number, comment: AnchoredComment): boolean {
+        const occupant = this.matchedLines.get(lineIndex);
+        return occupant !== undefined && occupant !== this.getAnchorKey(comment);
+    }
+
+    /**
+     * 同一组注释：保存时位于同一行、锚定的代码也相同（多条注释挂在同一行上）
+     * 内容相同但位于不同行的注释仍然互斥，避免两处相同代码的注释挤到同一行
+     */
+    private getAnchorKey(comment: AnchoredComment): string {
+        return `${comment.line}:${this.getAnchorLines(comment)[0].trim()}`;
+    }
+
+    /**
+     * 获取用于定位的代码快照：范围注释为范围内的每一行，单行注释为 lineContent
+     */
+    private getAnchorLines(comment: AnchoredComment): string[] {
+        if (comment.rangeContent && comment.rangeContent.length > 0) {
+            return comment.rangeContent;
+        }
+        return [comment.lineContent?.trim() || ''];
+    }
+    
+    /**
+     * 检查行内容是否有足够的特征性来进行可靠匹配
+     */
+    private hasEnoughCharacteristics(lineContent: string, thresholds: MatcherThresholds): boolean {
+        const trimmed = lineContent.trim();
+        
+        // 空行或只有空白字符
+        if (trimmed.length === 0) {
+            return false;
+        }
+        
+        // 只有简单的符号（如单独的 {、}、;、, 等）
+        if (trimmed.length <= 2 && /^[{}();,\[\]]+$/.test(trimmed)) {
+            return false;
+        }
+        
+        // 只有简单的关键字（如 else、try、catch 等单独出现）
+        if (thresholds.weakKeywords.includes(trimmed.toLowerCase())) {
+            return false;
+        }
+        
+        // 只有数字或简单的赋值
+        if (/^\d+$/.test(trimmed) || /^[a-zA-Z]\s*[=:]\s*\d+$/.test(trimmed)) {
+            return false;
+        }
+        
+        // 内容太短且没有特殊字符
+        if (trimmed.length < 5 && !/[a-zA-Z0-9_$]/.test(trimmed)) {
+            return false;
+        }
+        
+        return true;
+    }
+    
+    /**
+     * 计算搜索范围，按预设与配置的阈值
+     */
+    private calculateSearchRange(totalLines: number, lineContent: string, thresholds: MatcherThresholds): number {
+        // 基于行内容的复杂度调整搜索范围
+        const contentComplexity = this.calculateContentComplexity(lineContent);
+        
+        let baseRange: number;
+        
+        // 根据内容复杂度确定基础搜索范围
+        if (contentComplexity > 0.8) {
+            // 高复杂度内容，可以使用较大的搜索范围
+            baseRange = thresholds.searchRange.high;
+        } else if (contentComplexity > 0.5) {
+            // 中等复杂度内容
+            baseRange = thresholds.searchRange.medium;
+        } else {
+            // 低复杂度内容，使用很小的搜索范围
+            baseRange = thresholds.searchRange.low;
+        }
+        
+        // 根据文件大小限制搜索范围
+        if (totalLines <= 100) {
+            return Math.min(baseRange, thresholds.maxSearchRange.small);
+        } else if (totalLines <= 500) {
+            return Math.min(baseRange, thresholds.maxSearchRange.medium);
+        } else {
+            return Math.min(baseRange, thresholds.maxSearchRange.large);
+        }
+    }
+    
+    /**
+     * 计算内容复杂度（0-1之间的值）
+     */
+    private calculateContentComplexity(content: string): number {
+        if (!content || content.trim().length === 0) {
+            return 0;
+        }
+        
+        const trimmed = content.trim();
+        let complexity = 0;
+        
+        // 长度因子
+        complexity += Math.min(trimmed.length / 50, 0.3);
+        
+        // 字母数字字符比例
+        const alphanumericCount = (trimmed.match(/[a-zA-Z0-9]/g) || []).length;
+        complexity += (alphanumericCount / trimmed.length) * 0.3;
+        
+        // 特殊字符多样性
+        const specialChars = new Set(trimmed.match(/[^a-zA-Z0-9\s]/g) || []);
+        complexity += Math.min(specialChars.size / 10, 0.2);
+        
+        // 单词数量
+        const words = trimmed.split(/\s+/).filter(w => w.length > 0);
+        complexity += Math.min(words.length / 10, 0.2);
+        
+        return Math.min(complexity, 1);
+    }
+
+    /**
+     * 按文档的语言准备匹配输入，标准化结果按需计算并缓存
+     */
+    private prepare(document: LineSource): PreparedSource {
+        const { normalization, thresholds } = this.getOptions(document.languageId);
+        const normalize = (text: string) => normalizeLine(text, normalization, document.languageId);
+        const lines: string[] = [];
+        return {
+            lineCount: document.lineCount,
+            thresholds,
+            line: (index: number) => lines[index] ??= normalize(document.lineAt(index).text),
+            normalize
+        };
+    }
+
+    /**
+     * 计算两个字符串的相似度（0-1之间），基于编辑距离
+     * 自动匹配只接受完全一致的代码，相似度只用于重新定位时给候选位置排序
+     */
+    public calculateSimilarity(str1: string, str2: string): number {
+        if (!str1 || !str2) return 0;
+        
+        // 简单的编辑距离算法
+        const len1 = str1.length;
+        const len2 = str2.length;
+        
+        if (len1 === 0) return len2 === 0 ? 1 : 0;
+        if (len2 === 0) return 0;
+        
+        const matrix: number[][] = [];
+        
+        // 初始化矩阵
+        for (let i = 0; i <= len1; i++) {
+            matrix[i] = [i];
+        }
+        for (let j = 1; j <= len2; j++) {
+            matrix[0][j] = j;
+        }
+        
+        // 填充矩阵
+        for (let i = 1; i <= len1; i++) {
+            for (let j = 1; j <= len2; j++) {
+                const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+                matrix[i][j] = Math.min(
+                    matrix[i - 1][j] + 1, // 删除
+                    matrix[i][j - 1] + 1, // 插入
+                    matrix[i - 1][j - 1] + cost // 替换
+                );
+            }
+        }
+        
+        // 编辑距离
+        const distance = matrix[len1][len2];
+        
+        // 将距离转换为相似度分数（0到1之间）
+        return 1 - distance / Math.max(len1, len2);
+    }
+} 
\ No newline at end of file
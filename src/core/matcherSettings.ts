@@ -0,0 +1,82 @@
+import { DEFAULT_NORMALIZATION, NormalizationOptions, STRICT_NORMALIZATION } from './lineNormalizer';
+
+export type MatcherPreset = 'strict' | 'balanced' | 'aggressive';
+
+/**
+ * 匹配注释时使用的阈值
+ */
+export interface MatcherThresholds {
+    searchRange: { low: number; medium: number; high: number }; // 按代码复杂度确定的基础搜索范围（行）
+    maxSearchRange: { small: number; medium: number; large: number }; // 按文件大小（不超过 100 行、500 行、更大）限制的搜索范围上限
+    minContextScore: number; // 特征性不足的行至少需要吻合的上下文比例
+    minCandidateSimilarity: number; // 低于该相似度的行不作为重新定位的候选
+    weakKeywords: string[]; // 单独出现时特征性不足的关键字
+}
+
+export interface MatcherOptions {
+    preset: MatcherPreset;
+    normalization: NormalizationOptions;
+    thresholds: MatcherThresholds;
+}
+
+/**
+ * 用户配置的匹配设置，各项都可以省略
+ */
+export interface MatcherSettings {
+    preset?: MatcherPreset;
+    strict?: boolean;
+    normalization?: Partial<NormalizationOptions>;
+    thresholds?: Partial<MatcherThresholds>;
+}
+
+const BASE_WEAK_KEYWORDS = ['else', 'try', 'catch', 'finally', 'do', 'then'];
+
+// balanced 与调整前的固定阈值一致
+export const MATCHER_PRESETS: Record<MatcherPreset, MatcherThresholds> = {
+    strict: {
+        searchRange: { low: 1, medium: 3, high: 5 },
+        maxSearchRange: { small: 2, medium: 4, large: 8 },
+        minContextScore: 0.75,
+        minCandidateSimilarity: 0.6,
+        weakKeywords: [...BASE_WEAK_KEYWORDS, 'return', 'break', 'continue', 'pass', 'end', 'default']
+    },
+    balanced: {
+        searchRange: { low: 2, medium: 5, high: 10 },
+        maxSearchRange: { small: 3, medium: 8, large: 15 },
+        minContextScore: 0.5,
+        minCandidateSimilarity: 0.4,
+        weakKeywords: BASE_WEAK_KEYWORDS
+    },
+    aggressive: {
+        searchRange: { low: 3, medium: 10, high: 20 },
+        maxSearchRange: { small: 5, medium: 15, large: 30 },
+        minContextScore: 0.34,
+        minCandidateSimilarity: 0.3,
+        weakKeywords: BASE_WEAK_KEYWORDS
+    }
+};
+
+/**
+ * 由用户配置得到完整的匹配选项：strict 决定比较代码时是否忽略格式差异，preset 决定搜索范围与各项阈值
+ */
+export function resolveMatcherOptions(settings: MatcherSettings = {}): MatcherOptions {
+    const preset = settings.preset || 'balanced';
+    return {
+        preset,
+        normalization: settings.strict ? STRICT_NORMALIZATION : { ...DEFAULT_NORMALIZATION, ...settings.normalization },
+        thresholds: resolveThresholds(preset, settings.thresholds)
+    };
+}
+
+/**
+ * 用配置中的部分阈值覆盖预设，嵌套的搜索范围按字段覆盖
+ */
+export function resolveThresholds(preset: MatcherPreset, overrides: Partial<MatcherThresholds> = {}): MatcherThresholds {
+    const base = MATCHER_PRESETS[preset] || MATCHER_PRESETS.balanced;
+    return {
+        ...base,
+        ...overrides,
+        searchRange: { ...base.searchRange, ...overrides.searchRange },
+        maxSearchRange: { ...base.maxSearchRange, ...overrides.maxSearchRange }
+    };
+}
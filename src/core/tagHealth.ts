@@ -0,0 +1,115 @@
+/**
+ * 标签健康检查 - 找出重复的声明、引用了不存在的标签、从未被引用的声明以及所在注释无法匹配代码的声明，不依赖 VS Code
+ */
+import { TagKind, isTagDescendant } from './tagParser';
+
+/**
+ * 标签在注释中出现的一处位置
+ */
+export interface TagSite {
+    tagName: string;
+    kind: TagKind;
+    filePath: string;
+    commentId: string;
+    replyId?: string; // 标签位于回复中时为回复 ID
+    line: number;
+    orphaned?: boolean; // 所在注释无法匹配到代码
+    wildcard?: boolean; // 通配引用 @标签名.*
+}
+
+export type TagProblemKind = 'duplicateDeclaration' | 'unknownReference' | 'unusedDeclaration' | 'orphanedDeclaration';
+
+export interface TagProblem<T extends TagSite = TagSite> {
+    kind: TagProblemKind;
+    tagName: string;
+    sites: T[]; // 重复声明、未被引用和无法匹配代码时为声明，引用不存在的标签时为引用
+    wildcard?: boolean; // 通配引用没有任何子标签
+}
+
+// 问题的排列顺序，越靠前越需要处理
+export const TAG_PROBLEM_KINDS: TagProblemKind[] = ['duplicateDeclaration', 'unknownReference', 'orphanedDeclaration', 'unusedDeclaration'];
+
+/**
+ * 按问题类型、标签名的顺序列出所有标签问题
+ */
+export function analyzeTags<T extends TagSite>(declarations: T[], references: T[]): TagProblem<T>[] {
+    const declared = groupByName(declarations);
+    const referenced = groupByName(references.filter(site => !site.wildcard));
+    const wildcards = groupByName(references.filter(site => site.wildcard));
+    const problems: TagProblem<T>[] = [];
+
+    // 通配引用 @auth.* 引用了 auth 的所有子标签
+    const isReferenced = (tagName: string) =>
+        referenced.has(tagName) || [...wildcards.keys()].some(ancestor => isTagDescendant(tagName, ancestor));
+
+    for (const [tagName, sites] of declared) {
+        if (sites.length > 1) {
+            problems.push({ kind: 'duplicateDeclaration', tagName, sites });
+        }
+        if (!isReferenced(tagName)) {
+            problems.push({ kind: 'unusedDeclaration', tagName, sites });
+        }
+        const orphaned = sites.filter(site => site.orphaned);
+        if (orphaned.length > 0) {
+            problems.push({ kind: 'orphanedDeclaration', tagName, sites: orphaned });
+        }
+    }
+    for (const [tagName, sites] of referenced) {
+        if (!declared.has(tagName)) {
+            problems.push({ kind: 'unknownReference', tagName, sites });
+        }
+    }
+    for (const [tagName, sites] of wildcards) {
+        if (![...declared.keys()].some(name => isTagDescendant(name, tagName))) {
+            problems.push({ kind: 'unknownReference', tagName, sites, wildcard: true });
+        }
+    }
+
+    return problems.sort((a, b) =>
+        TAG_PROBLEM_KINDS.indexOf(a.kind) - TAG_PROBLEM_KINDS.indexOf(b.kind) || a.tagName.localeCompare(b.tagName));
+}
+
+/**
+ * 按相似程度列出可以替换未声明标签的已有标签名，用于修正拼写错误
+ */
+export function suggestTagNames(tagName: string, candidates: string[], limit: number = 5): string[] {
+    const target = tagName.toLowerCase();
+    return candidates
+        .map(candidate => {
+            const lower = candidate.toLowerCase();
+            // 大小写不同或互为前缀时优先，其余按编辑距离
+            const distance = lower === target ? 0
+                : lower.startsWith(target) || target.startsWith(lower) ? 1
+                    : editDistance(lower, target);
+            return { candidate, distance };
+        })
+        .filter(({ candidate, distance }) => distance <= Math.max(2, Math.floor(Math.max(candidate.length, tagName.length) / 3)))
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+}
+
+function groupByName<T extends TagSite>(sites: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const site of sites) {
+        const group = groups.get(site.tagName);
+        if (group) {
+            group.push(site);
+        } else {
+            groups.set(site.tagName, [site]);
+        }
+    }
+    return groups;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
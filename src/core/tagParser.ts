@@ -0,0 +1,208 @@
+/**
+ * 标签解析 - 从注释内容中提取标签声明（$标签名）与引用（@标签名），不依赖 VS Code
+ */
+
+// 标签路径中的一级：任意语言的字母或下划线开头，之后为字母、组合符号、数字或下划线，需要配合 u 标志使用
+const TAG_SEGMENT_PATTERN = '[\\p{L}_][\\p{L}\\p{M}\\p{N}_]*';
+
+// 标签名：用 . 或 / 分隔的多级路径，如 auth.session.refresh，解析后统一使用 . 分隔
+export const TAG_NAME_PATTERN = `${TAG_SEGMENT_PATTERN}(?:[./]${TAG_SEGMENT_PATTERN})*`;
+
+// 正在输入的标签名，可以停在分隔符之后，如 auth.
+export const TAG_PREFIX_PATTERN = `(?:${TAG_SEGMENT_PATTERN}[./])*(?:${TAG_SEGMENT_PATTERN})?`;
+
+export const TAG_PATH_SEPARATOR = '.';
+
+// 旧版本只识别 ASCII 标签名，仅用于检查已有注释中解析结果发生变化的标签
+export const LEGACY_TAG_NAME_PATTERN = '[a-zA-Z_][a-zA-Z0-9_]*';
+
+export type TagKind = 'declaration' | 'reference';
+
+export interface ParsedTag {
+    kind: TagKind;
+    name: string; // 标签名，不含 $ 或 @，层级统一以 . 分隔
+    text: string; // 注释中的原文，含 $ 或 @
+    start: number;
+    end: number;
+    wildcard?: boolean; // 通配引用 @auth.*，表示 auth 的所有子标签，name 为 auth
+}
+
+/**
+ * 标签补全中当前层级的一项
+ */
+export interface TagCompletion {
+    kind: 'tag' | 'namespace' | 'wildcard'; // 已声明的标签、还有下一级的路径、引用所有子标签
+    label: string; // 当前层级的名称，通配时为 *
+    path: string; // 完整路径，通配时为上一级的路径
+    insertText: string; // 替换 @ 之后已输入内容的文本
+    childCount: number; // 路径下已声明的子标签数
+}
+
+/**
+ * 与旧版本解析结果不同的标签
+ */
+export interface TagParseChange {
+    kind: TagKind;
+    start: number;
+    previous?: string; // 旧版本解析出的标签名，旧版本不识别时为空
+    current: string;
+}
+
+/**
+ * 按出现顺序提取注释内容中的所有标签
+ */
+export function parseTags(content: string): ParsedTag[] {
+    return parseTagsWith(content, TAG_NAME_PATTERN, true);
+}
+
+/**
+ * 找出按旧版本 ASCII 规则解析结果不同的标签，例如 $用户登录 以前不被识别，
+ * @session的说明 以前解析为 @session，现在解析为 @session的说明，@auth.session 以前解析为 @auth
+ */
+export function findTagParseChanges(content: string): TagParseChange[] {
+    const legacy = new Map(parseTagsWith(content, LEGACY_TAG_NAME_PATTERN, false).map(tag => [tag.start, tag.name]));
+    return parseTags(content)
+        .map(tag => ({ kind: tag.kind, start: tag.start, previous: legacy.get(tag.start), current: formatTagName(tag) }))
+        .filter(change => change.previous !== change.current);
+}
+
+/**
+ * 文本是否可以作为正在输入的标签名（可以为空，可以停在分隔符之后）
+ */
+export function isTagNamePrefix(text: string): boolean {
+    return new RegExp(`^${TAG_PREFIX_PATTERN}$`, 'u').test(text);
+}
+
+/**
+ * 文本是否是完整的标签名
+ */
+export function isValidTagName(text: string): boolean {
+    return new RegExp(`^${TAG_NAME_PATTERN}$`, 'u').test(text);
+}
+
+/**
+ * 标签名（含通配后缀），不含 $ 或 @
+ */
+export function formatTagName(tag: { name: string; wildcard?: boolean }): string {
+    return tag.wildcard ? `${tag.name}${TAG_PATH_SEPARATOR}*` : tag.name;
+}
+
+function parseTagsWith(content: string, namePattern: string, allowWildcard: boolean): ParsedTag[] {
+    const regex = new RegExp(`([$@])(${namePattern})${allowWildcard ? '([./]\\*)?' : ''}`, 'gu');
+    const tags: ParsedTag[] = [];
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const kind = match[1] === '$' ? 'declaration' : 'reference';
+        // 只有引用可以通配，声明后面的 .* 不属于标签
+        const wildcard = kind === 'reference' && match[3] !== undefined;
+        const text = wildcard ? match[0] : match[1] + match[2];
+        tags.push({
+            kind,
+            name: match[2].replace(/\//g, TAG_PATH_SEPARATOR),
+            text,
+            start: match.index,
+            end: match.index + text.length,
+            ...(wildcard ? { wildcard } : {})
+        });
+    }
+    return tags;
+}
+
+/**
+ * 查找位置所在的标签，位置在标签末尾时也算在内
+ */
+export function findTagAt(content: string, offset: number, kind?: TagKind): ParsedTag | undefined {
+    return parseTags(content).find(tag => (!kind || tag.kind === kind) && offset >= tag.start && offset <= tag.end);
+}
+
+/**
+ * 按出现顺序列出多条注释中的标签，同一个标签（类型、名称、通配都相同）只保留第一处
+ */
+export function collectTags<T extends { content: string }>(comments: T[], kind?: TagKind): { tag: ParsedTag; comment: T }[] {
+    const seen = new Set<string>();
+    const result: { tag: ParsedTag; comment: T }[] = [];
+    for (const comment of comments) {
+        for (const tag of parseTags(comment.content)) {
+            const key = `${tag.kind}:${formatTagName(tag)}`;
+            if ((!kind || tag.kind === kind) && !seen.has(key)) {
+                seen.add(key);
+                result.push({ tag, comment });
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * 光标前正在输入的标签引用：返回 @ 之后已输入的部分（可以为空），不在输入引用时返回 undefined
+ */
+export function getTagPrefixBeforeCursor(textBeforeCursor: string): string | undefined {
+    const match = textBeforeCursor.match(new RegExp(`@(${TAG_PREFIX_PATTERN})$`, 'u'));
+    return match ? match[1] : undefined;
+}
+
+/**
+ * name 是否是 ancestor 的下级标签（不含 ancestor 本身）
+ */
+export function isTagDescendant(name: string, ancestor: string): boolean {
+    return name.startsWith(ancestor + TAG_PATH_SEPARATOR);
+}
+
+/**
+ * 按层级补全标签：只列出已输入部分最后一个分隔符之后这一级的名称
+ *
+ * 已声明的标签补全为完整路径；还有下一级的路径补全到分隔符，继续补全下一级；
+ * 已输入上一级路径时还可以补全为通配引用 上一级.*
+ * @param prefix @ 之后已输入的内容
+ * @param tagNames 所有已声明的标签名
+ */
+export function getTagCompletions(prefix: string, tagNames: string[]): TagCompletion[] {
+    const normalized = prefix.replace(/\//g, TAG_PATH_SEPARATOR);
+    const separatorIndex = normalized.lastIndexOf(TAG_PATH_SEPARATOR);
+    const parent = separatorIndex === -1 ? '' : normalized.substring(0, separatorIndex);
+    const partial = normalized.substring(separatorIndex + 1).toLowerCase();
+    const declared = new Set(tagNames);
+    const countChildren = (path: string) => tagNames.filter(name => isTagDescendant(name, path)).length;
+
+    const segments = new Set<string>();
+    for (const name of tagNames) {
+        if (!parent || isTagDescendant(name, parent)) {
+            segments.add((parent ? name.substring(parent.length + 1) : name).split(TAG_PATH_SEPARATOR)[0]);
+        }
+    }
+
+    const completions: TagCompletion[] = [];
+    if (parent && partial === '' && countChildren(parent) > 0) {
+        completions.push({ kind: 'wildcard', label: '*', path: parent, insertText: formatTagName({ name: parent, wildcard: true }), childCount: countChildren(parent) });
+    }
+    for (const segment of [...segments].sort()) {
+        if (!segment.toLowerCase().startsWith(partial)) {
+            continue;
+        }
+        const path = parent ? `${parent}${TAG_PATH_SEPARATOR}${segment}` : segment;
+        const childCount = countChildren(path);
+        if (declared.has(path)) {
+            completions.push({ kind: 'tag', label: segment, path, insertText: path, childCount });
+        }
+        if (childCount > 0) {
+            completions.push({ kind: 'namespace', label: segment, path, insertText: path + TAG_PATH_SEPARATOR, childCount });
+        }
+    }
+    return completions;
+}
+
+/**
+ * 改写内容中的标签：replace 返回新的标签原文（含 $ 或 @）时替换，返回 undefined 时保持不变
+ */
+export function rewriteTags(content: string, replace: (tag: ParsedTag) => string | undefined): string {
+    let result = '';
+    let lastIndex = 0;
+    for (const tag of parseTags(content)) {
+        const replacement = replace(tag);
+        if (replacement !== undefined) {
+            result += content.substring(lastIndex, tag.start) + replacement;
+            lastIndex = tag.end;
+        }
+    }
+    return result + content.substring(lastIndex);
+}
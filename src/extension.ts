@@ -2,36 +2,55 @@ import * as vscode from 'vscode';
 import { CommentManager } from './commentManager';
 import { CommentProvider } from './providers/commentProvider';
 import { CommentTreeProvider } from './providers/commentTreeProvider';
+import { CommentThreadProvider } from './providers/commentThreadProvider';
 import { TagManager } from './tagManager';
+import { CommentRelocator } from './commentRelocator';
+import { CommentReconciler } from './commentReconciler';
 import { TagCompletionProvider } from './providers/tagCompletionProvider';
 import { TagDefinitionProvider } from './providers/tagDefinitionProvider';
+import { TagProblemsProvider } from './providers/tagProblemsProvider';
+import { TagTreeProvider } from './providers/tagTreeProvider';
+import { TagReferenceProvider } from './providers/tagReferenceProvider';
+import { TagRenameProvider } from './providers/tagRenameProvider';
+import { TagHealth } from './tagHealth';
 import * as path from 'path';
 import * as fs from 'fs';
 import { registerCommands } from './modules/commands';
+import { checkTagMigrationOnce } from './modules/tagMigration';
+import { TAG_NAME_PATTERN, TAG_PREFIX_PATTERN } from './core/tagParser';
 
 let commentManager: CommentManager;
 let commentProvider: CommentProvider;
+let commentThreadProvider: CommentThreadProvider;
 let commentTreeProvider: CommentTreeProvider;
 let tagManager: TagManager;
-
-// 全局变量，用于跟踪最后一次键盘活动时间
-let lastKeyboardActivity = Date.now();
-const KEYBOARD_ACTIVITY_THRESHOLD = 1000; // 1秒内有键盘活动才视为手动编辑
+let commentRelocator: CommentRelocator;
+let commentReconciler: CommentReconciler;
+let tagProblemsProvider: TagProblemsProvider;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('本地注释插件已激活');
 
     // 初始化管理器
     commentManager = new CommentManager(context);
-    commentProvider = new CommentProvider(commentManager);
+    commentThreadProvider = new CommentThreadProvider(commentManager);
+    commentProvider = new CommentProvider(commentManager, commentThreadProvider);
     commentTreeProvider = new CommentTreeProvider(commentManager);
     tagManager = new TagManager();
+    commentRelocator = new CommentRelocator(commentManager);
+    commentReconciler = new CommentReconciler(commentManager);
+    const tagHealth = new TagHealth(tagManager, commentManager);
+    tagProblemsProvider = new TagProblemsProvider(tagHealth, tagManager);
+    const tagTreeProvider = new TagTreeProvider(tagManager, tagHealth);
 
     // 初始化标签数据
     tagManager.updateTags(commentManager.getAllComments());
 
+    // 标签名改为支持 Unicode 后，检查已有注释中解析结果变化的标签
+    checkTagMigrationOnce(context, commentManager);
+
     // 注册命令
-    const commandDisposables = registerCommands(context, commentManager, tagManager, commentProvider, commentTreeProvider);
+    const commandDisposables = registerCommands(context, commentManager, tagManager, commentProvider, commentTreeProvider, commentThreadProvider, commentReconciler, tagHealth, tagProblemsProvider);
 
     // 注册用于修改树视图样式的CSS
     const decorationProvider = vscode.window.registerFileDecorationProvider({
@@ -63,12 +82,40 @@ export function activate(context: vscode.ExtensionContext) {
         definitionProvider
     );
 
+    // 标签的查找引用与重命名
+    const referenceDisposable = vscode.languages.registerReferenceProvider(
+        { scheme: 'file' },
+        new TagReferenceProvider(tagHealth, commentManager)
+    );
+
+    const renameDisposable = vscode.languages.registerRenameProvider(
+        { scheme: 'file' },
+        new TagRenameProvider(tagHealth, commentManager)
+    );
+
     // 注册树视图
     const treeView = vscode.window.createTreeView('localComments', {
         treeDataProvider: commentTreeProvider,
         showCollapseAll: true
     });
 
+    // 标签问题视图，标记中显示问题数量
+    const tagProblemsView = vscode.window.createTreeView('localCommentTagProblems', {
+        treeDataProvider: tagProblemsProvider
+    });
+    const updateTagProblemsBadge = () => {
+        const count = tagProblemsProvider.getProblems().length;
+        tagProblemsView.badge = count > 0 ? { value: count, tooltip: `${count} 个标签问题` } : undefined;
+    };
+    updateTagProblemsBadge();
+    const onDidChangeTagProblems = tagProblemsProvider.onDidChangeTreeData(updateTagProblemsBadge);
+
+    // 标签视图，按层级显示所有标签
+    const tagTreeView = vscode.window.createTreeView('localCommentTags', {
+        treeDataProvider: tagTreeProvider,
+        showCollapseAll: true
+    });
+
     // 初始化时等待编辑器准备就绪
     if (vscode.window.activeTextEditor) {
         // 如果已经有活动的编辑器，立即刷新
@@ -76,6 +123,27 @@ export function activate(context: vscode.ExtensionContext) {
         commentTreeProvider.refresh();
     }
 
+    // 注释数据被整体替换（如从备份恢复）时刷新所有视图
+    const onDidChangeComments = commentManager.onDidChangeComments(() => {
+        tagManager.updateTags(commentManager.getAllComments());
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    });
+
+    // 注释被迁移到其他文件后，标签声明也随之归属到新文件
+    const onDidRelocate = commentRelocator.onDidRelocate(() => {
+        tagManager.updateTags(commentManager.getAllComments());
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    });
+
+    // 编辑器外修改的文件重新匹配后，注释位置可能变化
+    const onDidReconcile = commentReconciler.onDidReconcile(() => {
+        tagManager.updateTags(commentManager.getAllComments());
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    });
+
     // 监听编辑器变化
     const onDidChangeActiveTextEditor = vscode.window.onDidChangeActiveTextEditor((editor) => {
         if (editor) {
@@ -94,30 +162,13 @@ export function activate(context: vscode.ExtensionContext) {
 
     // 监听文档变化
     const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument((event) => {
-        // 获取当前时间
-        const now = Date.now();
-        // 只有在最近有键盘活动的情况下才更新代码快照
-        const hasRecentKeyboardActivity = (now - lastKeyboardActivity < KEYBOARD_ACTIVITY_THRESHOLD);
-        
-        // 传递键盘活动信息给commentManager
-        commentManager.handleDocumentChange(event, hasRecentKeyboardActivity);
+        // 按编辑区间平移注释，之后再刷新显示
+        commentManager.handleDocumentChange(event);
         tagManager.updateTags(commentManager.getAllComments());
         commentProvider.refresh();
         commentTreeProvider.refresh();
     });
 
-    // 添加键盘事件监听
-    const onDidChangeTextEditorSelection = vscode.window.onDidChangeTextEditorSelection(() => {
-        // 更新最后一次键盘活动时间
-        lastKeyboardActivity = Date.now();
-    });
-
-    // 添加键盘输入事件监听（更全面的键盘活动捕获）
-    const onDidChangeTextEditorVisibleRanges = vscode.window.onDidChangeTextEditorVisibleRanges(() => {
-        // 更新最后一次键盘活动时间
-        lastKeyboardActivity = Date.now();
-    });
-
     // 在注册自动补全和定义提供器的部分后添加
     const hoverDisposable = vscode.languages.registerHoverProvider(
         { scheme: 'file' },
@@ -126,15 +177,26 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(
         ...commandDisposables,
+        onDidChangeComments,
+        onDidRelocate,
+        commentRelocator,
+        onDidReconcile,
+        commentReconciler,
         onDidChangeTextDocument,
         onDidChangeActiveTextEditor,
-        onDidChangeTextEditorSelection,
-        onDidChangeTextEditorVisibleRanges,
         onDidOpenTextDocument,
         commentProvider,
+        commentThreadProvider,
         treeView,
+        tagProblemsView,
+        onDidChangeTagProblems,
+        tagProblemsProvider,
+        tagTreeView,
+        tagTreeProvider,
         completionDisposable,
         definitionDisposable,
+        referenceDisposable,
+        renameDisposable,
         hoverDisposable
     );
     
@@ -147,114 +209,6 @@ export function deactivate() {
     }
 }
 
-// 单行快速输入函数（带标签补全）
-async function showQuickInputWithTagCompletion(
-    prompt: string, 
-    placeholder: string,
-    value: string,
-    tagManager: TagManager
-): Promise<string | undefined> {
-    return new Promise<string | undefined>((resolve) => {
-        const quickPick = vscode.window.createQuickPick();
-        quickPick.placeholder = placeholder;
-        quickPick.title = prompt;
-        quickPick.value = value || '';
-        quickPick.canSelectMany = false;
-        quickPick.ignoreFocusOut = true;
-        quickPick.matchOnDescription = true;
-        quickPick.matchOnDetail = true;
-        
-        let isShowingCompletions = false;
-        
-        const updateCompletions = (inputValue: string) => {
-            const lastAtIndex = inputValue.lastIndexOf('@');
-            
-            if (lastAtIndex !== -1) {
-                const afterAt = inputValue.substring(lastAtIndex + 1);
-                
-                if (/^[a-zA-Z0-9_]*$/.test(afterAt)) {
-                    const availableTags = tagManager.getAvailableTagNames();
-                    
-                    if (availableTags.length > 0) {
-                        const filteredTags = availableTags.filter(tag => 
-                            afterAt === '' || tag.toLowerCase().startsWith(afterAt.toLowerCase())
-                        );
-                        
-                        if (filteredTags.length > 0) {
-                            const items = filteredTags.map(tag => ({
-                                label: `@${tag}`,
-                                description: '🏷️ 标签补全',
-                                detail: `插入标签引用 @${tag}`,
-                                originalTag: tag
-                            }));
-                            
-                            quickPick.items = items;
-                            isShowingCompletions = true;
-                            
-                            if (quickPick.items.length > 0) {
-                                quickPick.activeItems = [quickPick.items[0]];
-                            }
-                        } else {
-                            quickPick.items = [];
-                            isShowingCompletions = false;
-                        }
-                    } else {
-                        quickPick.items = [];
-                        isShowingCompletions = false;
-                    }
-                } else {
-                    quickPick.items = [];
-                    isShowingCompletions = false;
-                }
-            } else {
-                quickPick.items = [];
-                isShowingCompletions = false;
-            }
-        };
-
-        // 初始化
-        updateCompletions(quickPick.value);
-
-        // 监听输入变化
-        quickPick.onDidChangeValue((inputValue) => {
-            updateCompletions(inputValue);
-        });
-
-        // 选择逻辑
-        quickPick.onDidAccept(() => {
-            if (isShowingCompletions && quickPick.selectedItems.length > 0) {
-                const selectedItem = quickPick.selectedItems[0];
-                const currentValue = quickPick.value;
-                const lastAtIndex = currentValue.lastIndexOf('@');
-                
-                if (lastAtIndex !== -1 && (selectedItem as any).originalTag) {
-                    // 只替换@后面的部分
-                    const beforeAt = currentValue.substring(0, lastAtIndex + 1); // 包含@
-                    const newValue = beforeAt + (selectedItem as any).originalTag + ' '; // @标签名 + 空格
-                    quickPick.value = newValue;
-                    quickPick.items = [];
-                    isShowingCompletions = false;
-                    
-                    // 继续编辑，不关闭对话框
-                    updateCompletions(newValue);
-                    return;
-                }
-            }
-            
-            // 如果不是选择补全项，则完成输入
-            resolve(quickPick.value);
-            quickPick.dispose();
-        });
-
-        quickPick.onDidHide(() => {
-            resolve(undefined);
-            quickPick.dispose();
-        });
-
-        quickPick.show();
-    });
-}
-
 // 在文件末尾添加WebView多行输入函数
 async function showWebViewInput(
     context: vscode.ExtensionContext,
@@ -405,6 +359,8 @@ function getWebviewContent(
         escapedPlaceholder: escapeHtml(placeholder),
         escapedContent: escapeHtml(existingContent || ''),
         tagSuggestions,
+        tagNamePattern: TAG_NAME_PATTERN,
+        tagPrefixPattern: TAG_PREFIX_PATTERN,
         markedJsUri: markedJsUri || ''
     };
 
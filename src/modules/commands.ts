@@ -1,19 +1,38 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CommentManager } from '../commentManager';
+import { CommentManager, LocalComment, CommentAttributes, CommentStatus, CommentPriority } from '../commentManager';
+import {
+    STATUSES, PRIORITIES, STATUS_LABELS, PRIORITY_LABELS,
+    getStatus, getStatusAppearance, getPriorityAppearance, getCategoryAppearance, getKnownCategories
+} from '../commentAppearance';
 import { TagManager } from '../tagManager';
 import { CommentProvider } from '../providers/commentProvider';
-import { CommentTreeProvider } from '../providers/commentTreeProvider';
+import { CommentTreeProvider, TreeGroupBy, TreeFilter } from '../providers/commentTreeProvider';
+import { CommentThreadProvider, LocalThreadComment } from '../providers/commentThreadProvider';
 import { showWebViewInput } from './webview';
 import { showQuickInputWithTagCompletion } from '../quickInput';
+import { exportComments, importComments } from './exportImport';
+import { reanchorComment, reanchorAllComments } from './reanchor';
+import { CommentReconciler } from '../commentReconciler';
+import { explainMatch } from './explainMatch';
+import { showTagMigrationReport } from './tagMigration';
+import { TagHealth } from '../tagHealth';
+import { TagProblemsProvider } from '../providers/tagProblemsProvider';
+import { mergeTagDeclarations, removeTagFromProblem, renameTagFromProblem } from './tagQuickFixes';
+import { renameTagEverywhere, undoLastTagRename } from './tagRename';
+import { formatTagName, isTagDescendant, parseTags } from '../core/tagParser';
 
 export function registerCommands(
     context: vscode.ExtensionContext,
     commentManager: CommentManager,
     tagManager: TagManager,
     commentProvider: CommentProvider,
-    commentTreeProvider: CommentTreeProvider
+    commentTreeProvider: CommentTreeProvider,
+    commentThreadProvider: CommentThreadProvider,
+    commentReconciler: CommentReconciler,
+    tagHealth: TagHealth,
+    tagProblemsProvider: TagProblemsProvider
 ) {
     const showStorageLocationCommand = vscode.commands.registerCommand('localComment.showStorageLocation', () => {
         const projectInfo = commentManager.getProjectInfo();
@@ -23,6 +42,16 @@ export function registerCommands(
         message += `🏷️ 项目名称: ${projectInfo.name}\n`;
         message += `📁 项目路径: ${projectInfo.path}\n`;
         message += `💾 存储文件: ${storageFile}\n\n`;
+        
+        // 多根工作区中每个文件夹都有独立的存储文件
+        const storageFiles = commentManager.getStorageFiles();
+        if (storageFiles.length > 1) {
+            message += `📚 各文件夹存储文件:\n`;
+            for (const item of storageFiles) {
+                message += `• ${item.folder?.name}: ${path.basename(item.storageFile)}\n`;
+            }
+            message += `\n`;
+        }
         message += `ℹ️ 注意: 每个项目的注释数据独立存储`;
         
         vscode.window.showInformationMessage(
@@ -104,20 +133,18 @@ export function registerCommands(
             
             for (const file of files) {
                 const filePath = path.join(projectsDir, file);
-                try {
-                    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-                    const fileCount = Object.keys(data).length;
-                    const commentCount = Object.values(data).reduce((sum: number, comments: any) => sum + comments.length, 0);
-                    
-                    totalFiles += fileCount;
-                    totalComments += commentCount;
-                    
-                    // 从文件名解析项目名称（格式：项目名-哈希值.json）
-                    const projectName = file.replace(/-[a-f0-9]+\.json$/, '');
-                    message += `🗂️ ${projectName}: ${fileCount} 个文件, ${commentCount} 条注释\n`;
-                } catch (error) {
-                    console.error(`读取项目文件失败: ${file}`, error);
+                const summary = commentManager.getProjectFileSummary(filePath);
+                if (!summary) {
+                    console.error(`读取项目文件失败: ${file}`);
+                    continue;
                 }
+                
+                totalFiles += summary.fileCount;
+                totalComments += summary.commentCount;
+                
+                // 从文件名解析项目名称（格式：项目名-哈希值.json）
+                const projectName = file.replace(/-[a-f0-9]+\.json$/, '');
+                message += `🗂️ ${projectName}: ${summary.fileCount} 个文件, ${summary.commentCount} 条注释\n`;
             }
             
             message += `\n📊 总计: ${totalFiles} 个文件, ${totalComments} 条注释`;
@@ -125,10 +152,12 @@ export function registerCommands(
             
             vscode.window.showInformationMessage(
                 message,
-                '打开项目目录', '清理旧数据'
+                '打开项目目录', '关联到当前项目', '清理旧数据'
             ).then(selection => {
                 if (selection === '打开项目目录') {
                     vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(projectsDir));
+                } else if (selection === '关联到当前项目') {
+                    showRelinkDialog(projectsDir, files);
                 } else if (selection === '清理旧数据') {
                     showCleanupDialog(projectsDir, files);
                 }
@@ -140,6 +169,85 @@ export function registerCommands(
         }
     });
 
+    // 关联项目数据对话框：将已有的注释文件挂到当前工作区（仓库移动或重新克隆后使用）
+    async function showRelinkDialog(projectsDir: string, files: string[]) {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showWarningMessage('请先打开一个工作区文件夹');
+            return;
+        }
+
+        const currentStorageFiles = new Set(commentManager.getStorageFiles().map(item => item.storageFile));
+        const items = files
+            .filter(file => !currentStorageFiles.has(path.join(projectsDir, file)))
+            .map(file => {
+                const projectName = file.replace(/-[a-f0-9]+\.json$/, '');
+                return {
+                    label: projectName,
+                    description: file,
+                    detail: `将 ${projectName} 的注释关联到当前项目`
+                };
+            });
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('没有可关联的其他项目注释数据');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: '选择要关联到当前项目的注释数据'
+        });
+        if (!selected) {
+            return;
+        }
+
+        let folder: vscode.WorkspaceFolder | undefined = workspaceFolders[0];
+        if (workspaceFolders.length > 1) {
+            folder = await vscode.window.showWorkspaceFolderPick({
+                placeHolder: '选择要关联到的工作区文件夹'
+            });
+            if (!folder) {
+                return;
+            }
+        }
+
+        const targetFolder = folder;
+        const hasExistingComments = Object.keys(commentManager.getAllComments()).some(filePath =>
+            vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.toString() === targetFolder.uri.toString()
+        );
+
+        let replace = false;
+        if (hasExistingComments) {
+            const choice = await vscode.window.showWarningMessage(
+                `工作区文件夹 ${targetFolder.name} 已有本地注释，如何处理？`,
+                '合并', '替换', '取消'
+            );
+            if (!choice || choice === '取消') {
+                return;
+            }
+            replace = choice === '替换';
+        }
+
+        try {
+            const sourceFile = path.join(projectsDir, selected.description);
+            const fileCount = await commentManager.relinkProjectFile(sourceFile, targetFolder, replace);
+            tagManager.updateTags(commentManager.getAllComments());
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+
+            const cleanup = await vscode.window.showInformationMessage(
+                `已将 ${selected.label} 的 ${fileCount} 个文件的注释关联到 ${targetFolder.name}`,
+                '删除原数据文件', '保留'
+            );
+            if (cleanup === '删除原数据文件') {
+                fs.unlinkSync(sourceFile);
+            }
+        } catch (error) {
+            console.error('关联项目数据失败:', error);
+            vscode.window.showErrorMessage(`关联项目数据失败: ${error}`);
+        }
+    }
+
     // 清理数据对话框
     async function showCleanupDialog(projectsDir: string, files: string[]) {
         const items = files.map(file => {
@@ -181,6 +289,85 @@ export function registerCommands(
         }
     }
 
+    const restoreFromBackupCommand = vscode.commands.registerCommand('localComment.restoreFromBackup', async () => {
+        try {
+            const storageFiles = commentManager.getStorageFiles();
+            let storageFile = storageFiles[0].storageFile;
+
+            if (storageFiles.length > 1) {
+                const folderPick = await vscode.window.showQuickPick(
+                    storageFiles.map(item => ({
+                        label: item.folder?.name || '全局存储',
+                        description: path.basename(item.storageFile),
+                        storageFile: item.storageFile
+                    })),
+                    { placeHolder: '选择要恢复的工作区文件夹' }
+                );
+                if (!folderPick) {
+                    return;
+                }
+                storageFile = folderPick.storageFile;
+            }
+
+            const backups = commentManager.listBackups(storageFile);
+            if (backups.length === 0) {
+                vscode.window.showInformationMessage('当前项目还没有注释备份');
+                return;
+            }
+
+            const backupPick = await vscode.window.showQuickPick(
+                backups.map(backup => ({
+                    label: backup.label
+                        ? `${new Date(backup.timestamp).toLocaleString()} (${backup.label})`
+                        : new Date(backup.timestamp).toLocaleString(),
+                    description: `${backup.fileCount} 个文件, ${backup.commentCount} 条注释`,
+                    detail: backup.file,
+                    backup
+                })),
+                { placeHolder: '选择要恢复的备份快照' }
+            );
+            if (!backupPick) {
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `确定要用 ${backupPick.label} 的备份替换当前注释吗？当前数据会先自动备份。`,
+                '确定恢复', '取消'
+            );
+            if (confirm !== '确定恢复') {
+                return;
+            }
+
+            await commentManager.restoreFromBackup(storageFile, backupPick.backup.file);
+            vscode.window.showInformationMessage(`已恢复 ${backupPick.label} 的注释备份`);
+        } catch (error) {
+            console.error('从备份恢复注释失败:', error);
+            vscode.window.showErrorMessage(`从备份恢复失败: ${error}`);
+        }
+    });
+
+    const exportCommentsCommand = vscode.commands.registerCommand('localComment.exportComments', async () => {
+        try {
+            await exportComments(commentManager);
+        } catch (error) {
+            console.error('导出注释失败:', error);
+            vscode.window.showErrorMessage(`导出注释失败: ${error}`);
+        }
+    });
+
+    const importCommentsCommand = vscode.commands.registerCommand('localComment.importComments', async () => {
+        try {
+            if (await importComments(commentManager)) {
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+            }
+        } catch (error) {
+            console.error('导入注释失败:', error);
+            vscode.window.showErrorMessage(`导入注释失败: ${error}`);
+        }
+    });
+
     const toggleCommentsCommand = vscode.commands.registerCommand('localComment.toggleComments', () => {
         commentProvider.toggleVisibility();
     });
@@ -196,20 +383,605 @@ export function registerCommands(
     const deleteCommentFromTreeCommand = vscode.commands.registerCommand('localComment.deleteCommentFromTree', async (item) => {
         if ((item.contextValue === 'comment' || item.contextValue === 'hidden-comment') && item.filePath && item.comment) {
             const uri = vscode.Uri.file(item.filePath);
-            await commentManager.removeComment(uri, item.comment.line);
+            await commentManager.removeCommentById(uri, item.comment.id);
+            tagManager.updateTags(commentManager.getAllComments());
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+        } else if (item.contextValue === 'reply' && item.filePath && item.comment && item.reply) {
+            await commentManager.removeReply(vscode.Uri.file(item.filePath), item.comment.id, item.reply.id);
             tagManager.updateTags(commentManager.getAllComments());
             commentProvider.refresh();
             commentTreeProvider.refresh();
         }
     });
 
-    const goToCommentCommand = vscode.commands.registerCommand('localComment.goToComment', async (filePath: string, line: number) => {
+    const replyToCommentCommand = vscode.commands.registerCommand('localComment.replyToComment', async (args) => {
+        try {
+            // 来自注释树的节点或悬停提示中的链接参数
+            let uri: vscode.Uri | undefined;
+            let commentId: string | undefined;
+            if (args && args.contextValue) {
+                uri = args.filePath ? vscode.Uri.file(args.filePath) : undefined;
+                commentId = args.comment?.id;
+            } else {
+                const parsedArgs = typeof args === 'string' ? JSON.parse(args) : args;
+                uri = parsedArgs?.uri ? vscode.Uri.parse(parsedArgs.uri) : undefined;
+                commentId = parsedArgs?.commentId;
+            }
+            if (!uri || !commentId) {
+                vscode.window.showErrorMessage('参数不完整');
+                return;
+            }
+
+            const comment = commentManager.getCommentById(uri, commentId);
+            if (!comment) {
+                vscode.window.showWarningMessage('找不到指定的注释');
+                return;
+            }
+
+            const content = await showQuickInputWithTagCompletion(
+                '回复注释',
+                `回复: ${comment.content.substring(0, 30)}${comment.content.length > 30 ? '...' : ''}`,
+                '',
+                tagManager
+            );
+            if (content !== undefined && content.trim() !== '') {
+                await commentManager.addReply(uri, commentId, content);
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+            }
+        } catch (error) {
+            console.error('回复注释时发生错误:', error);
+            vscode.window.showErrorMessage(`回复注释失败: ${error}`);
+        }
+    });
+
+    const removeReplyFromHoverCommand = vscode.commands.registerCommand('localComment.removeReplyFromHover', async (args) => {
+        try {
+            const { uri, commentId, replyId } = typeof args === 'string' ? JSON.parse(args) : args;
+            if (!uri || !commentId || !replyId) {
+                vscode.window.showErrorMessage('参数不完整');
+                return;
+            }
+
+            await commentManager.removeReply(vscode.Uri.parse(uri), commentId, replyId);
+            tagManager.updateTags(commentManager.getAllComments());
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+        } catch (error) {
+            console.error('从hover删除回复时发生错误:', error);
+            vscode.window.showErrorMessage(`删除回复时发生错误: ${error}`);
+        }
+    });
+
+    // 注释的状态、优先级与分类，可从悬停提示或注释树中修改
+    const applyCommentAttributes = async (args: any, attributes: CommentAttributes) => {
+        const target = resolveCommentTarget(args);
+        if (!target) {
+            vscode.window.showErrorMessage('参数不完整');
+            return;
+        }
+        await commentManager.setCommentAttributes(target.uri, target.commentId, attributes);
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    };
+
+    const setStatusCommand = vscode.commands.registerCommand('localComment.setStatus', async (args) => {
+        try {
+            const target = resolveCommentTarget(args);
+            const comment = target && commentManager.getCommentById(target.uri, target.commentId);
+            if (!target || !comment) {
+                vscode.window.showWarningMessage('找不到指定的注释');
+                return;
+            }
+
+            // 悬停提示中的链接直接携带目标状态，其他入口让用户选择
+            let status: CommentStatus | undefined = target.args.status;
+            if (!status) {
+                const picked = await vscode.window.showQuickPick(STATUSES.map(value => ({
+                    label: `${getStatusAppearance(value).icon} ${STATUS_LABELS[value]}`,
+                    description: value === getStatus(comment) ? '当前' : undefined,
+                    value
+                })), { placeHolder: '选择注释状态' });
+                status = picked?.value;
+            }
+            if (status) {
+                await applyCommentAttributes(args, { status });
+            }
+        } catch (error) {
+            console.error('设置注释状态时发生错误:', error);
+            vscode.window.showErrorMessage(`设置注释状态时发生错误: ${error}`);
+        }
+    });
+
+    const setPriorityCommand = vscode.commands.registerCommand('localComment.setPriority', async (args) => {
+        try {
+            const target = resolveCommentTarget(args);
+            const comment = target && commentManager.getCommentById(target.uri, target.commentId);
+            if (!target || !comment) {
+                vscode.window.showWarningMessage('找不到指定的注释');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick([
+                ...PRIORITIES.map(value => ({
+                    label: `${getPriorityAppearance(value).icon} ${PRIORITY_LABELS[value]}`,
+                    description: value === comment.priority ? '当前' : undefined,
+                    value: value as CommentPriority | undefined
+                })),
+                { label: '$(close) 清除优先级', description: undefined, value: undefined }
+            ], { placeHolder: '选择注释优先级' });
+            if (picked) {
+                await applyCommentAttributes(args, { priority: picked.value });
+            }
+        } catch (error) {
+            console.error('设置注释优先级时发生错误:', error);
+            vscode.window.showErrorMessage(`设置注释优先级时发生错误: ${error}`);
+        }
+    });
+
+    const setCategoryCommand = vscode.commands.registerCommand('localComment.setCategory', async (args) => {
+        try {
+            const target = resolveCommentTarget(args);
+            const comment = target && commentManager.getCommentById(target.uri, target.commentId);
+            if (!target || !comment) {
+                vscode.window.showWarningMessage('找不到指定的注释');
+                return;
+            }
+
+            const allComments = Object.values(commentManager.getAllComments()).flat();
+            const items: (vscode.QuickPickItem & { value?: string })[] = getKnownCategories(allComments).map(category => ({
+                label: `${getCategoryAppearance(category).icon || '$(tag)'} ${category}`,
+                description: category === comment.category ? '当前' : undefined,
+                value: category
+            }));
+            items.push(
+                { label: '$(add) 新建分类...', value: undefined },
+                { label: '$(close) 清除分类', value: '' }
+            );
+
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择注释分类' });
+            if (!picked) {
+                return;
+            }
+
+            let category = picked.value;
+            if (category === undefined) {
+                category = await vscode.window.showInputBox({ prompt: '输入新的分类名称' });
+                if (category === undefined || category.trim() === '') {
+                    return;
+                }
+                category = category.trim();
+            }
+            await applyCommentAttributes(args, { category });
+        } catch (error) {
+            console.error('设置注释分类时发生错误:', error);
+            vscode.window.showErrorMessage(`设置注释分类时发生错误: ${error}`);
+        }
+    });
+
+    const groupTreeByCommand = vscode.commands.registerCommand('localComment.groupTreeBy', async () => {
+        const current = commentTreeProvider.getGroupBy();
+        const options: { label: string; value: TreeGroupBy }[] = [
+            { label: '$(file-code) 按文件', value: 'file' },
+            { label: '$(circle-large-outline) 按状态', value: 'status' },
+            { label: '$(flame) 按优先级', value: 'priority' },
+            { label: '$(symbol-folder) 按分类', value: 'category' }
+        ];
+        const picked = await vscode.window.showQuickPick(
+            options.map(option => ({ ...option, description: option.value === current ? '当前' : undefined })),
+            { placeHolder: '选择注释树的分组方式' }
+        );
+        if (picked) {
+            commentTreeProvider.setGroupBy(picked.value);
+        }
+    });
+
+    const filterTreeCommand = vscode.commands.registerCommand('localComment.filterTree', async () => {
+        const current = commentTreeProvider.getFilter();
+        const allComments = Object.values(commentManager.getAllComments()).flat();
+        type FilterItem = vscode.QuickPickItem & { field?: keyof TreeFilter; value?: string };
+
+        const items: FilterItem[] = [
+            { label: '状态', kind: vscode.QuickPickItemKind.Separator },
+            ...STATUSES.map(value => ({
+                label: `${getStatusAppearance(value).icon} ${STATUS_LABELS[value]}`,
+                field: 'statuses' as const,
+                value,
+                picked: current.statuses.includes(value)
+            })),
+            { label: '优先级', kind: vscode.QuickPickItemKind.Separator },
+            ...[...PRIORITIES, 'none' as const].map(value => ({
+                label: value === 'none' ? '未设置优先级' : `${getPriorityAppearance(value).icon} ${PRIORITY_LABELS[value]}`,
+                field: 'priorities' as const,
+                value,
+                picked: current.priorities.includes(value)
+            })),
+            { label: '分类', kind: vscode.QuickPickItemKind.Separator },
+            ...[...getKnownCategories(allComments), ''].map(value => ({
+                label: value === '' ? '未分类' : value,
+                field: 'categories' as const,
+                value,
+                picked: current.categories.includes(value)
+            }))
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '选择要显示的注释（同一类条件满足任一即可，不选表示不限制）'
+        });
+        if (!picked) {
+            return;
+        }
+
+        const filter: TreeFilter = { statuses: [], priorities: [], categories: [] };
+        for (const item of picked) {
+            if (item.field && item.value !== undefined) {
+                (filter[item.field] as string[]).push(item.value);
+            }
+        }
+        commentTreeProvider.setFilter(filter);
+    });
+
+    const clearTreeFilterCommand = vscode.commands.registerCommand('localComment.clearTreeFilter', () => {
+        commentTreeProvider.setFilter({ statuses: [], priorities: [], categories: [] });
+    });
+
+    const reanchorCommentCommand = vscode.commands.registerCommand('localComment.reanchorComment', async (item) => {
+        try {
+            // 来自注释树的隐藏注释节点，或在当前文件的无法匹配的注释中选择
+            let filePath: string | undefined = item?.filePath;
+            let commentId: string | undefined = item?.comment?.id;
+            if (!filePath || !commentId) {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor) {
+                    vscode.window.showWarningMessage('请先打开一个文件');
+                    return;
+                }
+                filePath = editor.document.uri.fsPath;
+                const orphans = commentManager.findUnmatchedComments().filter(orphan => orphan.filePath === filePath);
+                if (orphans.length === 0) {
+                    vscode.window.showInformationMessage('当前文件的本地注释都已匹配到代码');
+                    return;
+                }
+                const picked = orphans.length === 1 ? { comment: orphans[0].comment } : await vscode.window.showQuickPick(orphans.map(({ comment }) => ({
+                    label: comment.content.split('\n')[0],
+                    description: `原第 ${comment.line + 1} 行`,
+                    detail: comment.lineContent,
+                    comment
+                })), { placeHolder: '选择要重新定位的注释' });
+                if (!picked) {
+                    return;
+                }
+                commentId = picked.comment.id;
+            }
+
+            if (await reanchorComment(commentManager, filePath, commentId)) {
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+            }
+        } catch (error) {
+            console.error('重新定位注释时发生错误:', error);
+            vscode.window.showErrorMessage(`重新定位注释时发生错误: ${error}`);
+        }
+    });
+
+    const reanchorAllCommentsCommand = vscode.commands.registerCommand('localComment.reanchorAllComments', async () => {
+        try {
+            if (await reanchorAllComments(commentManager)) {
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+            }
+        } catch (error) {
+            console.error('批量重新定位注释时发生错误:', error);
+            vscode.window.showErrorMessage(`批量重新定位注释时发生错误: ${error}`);
+        }
+    });
+
+    const explainMatchCommand = vscode.commands.registerCommand('localComment.explainMatch', async (item) => {
+        try {
+            // 来自注释树的注释节点，或在当前文件的所有注释（包括无法匹配的）中选择
+            let filePath: string | undefined = item?.filePath;
+            let commentId: string | undefined = item?.comment?.id;
+            if (!filePath || !commentId) {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor) {
+                    vscode.window.showWarningMessage('请先打开一个文件');
+                    return;
+                }
+                filePath = editor.document.uri.fsPath;
+                const fileComments = commentManager.getAllComments()[filePath] || [];
+                if (fileComments.length === 0) {
+                    vscode.window.showInformationMessage('当前文件没有本地注释');
+                    return;
+                }
+                const picked = fileComments.length === 1 ? { comment: fileComments[0] } : await vscode.window.showQuickPick(fileComments.map(comment => ({
+                    label: comment.content.split('\n')[0],
+                    description: `第 ${comment.line + 1} 行${comment.isMatched === false ? ' · 已隐藏' : ''}`,
+                    detail: comment.lineContent,
+                    comment
+                })), { placeHolder: '选择要查看匹配过程的注释' });
+                if (!picked) {
+                    return;
+                }
+                commentId = picked.comment.id;
+            }
+
+            await explainMatch(commentManager, filePath, commentId);
+        } catch (error) {
+            console.error('解释注释匹配过程时发生错误:', error);
+            vscode.window.showErrorMessage(`解释注释匹配过程时发生错误: ${error}`);
+        }
+    });
+
+    // 刷新由 commentReconciler.onDidReconcile 负责
+    const reconcileNowCommand = vscode.commands.registerCommand('localComment.reconcileNow', async () => {
+        try {
+            await commentReconciler.reconcileAll();
+        } catch (error) {
+            console.error('重新匹配所有注释时发生错误:', error);
+            vscode.window.showErrorMessage(`重新匹配所有注释时发生错误: ${error}`);
+        }
+    });
+
+    const checkTagMigrationCommand = vscode.commands.registerCommand('localComment.checkTagMigration', async () => {
+        try {
+            await showTagMigrationReport(commentManager);
+        } catch (error) {
+            console.error('检查标签解析变化时发生错误:', error);
+            vscode.window.showErrorMessage(`检查标签解析变化时发生错误: ${error}`);
+        }
+    });
+
+    const refreshTagProblemsCommand = vscode.commands.registerCommand('localComment.refreshTagProblems', () => {
+        tagManager.updateTags(commentManager.getAllComments());
+        tagProblemsProvider.refresh();
+    });
+
+    // 标签问题视图中的快速修复，修改注释后由 tagManager.onDidUpdateTags 刷新问题列表
+    const tagQuickFixes: [string, typeof renameTagFromProblem, string][] = [
+        ['localComment.renameProblemTag', renameTagFromProblem, '重命名标签'],
+        ['localComment.mergeTagDeclarations', mergeTagDeclarations, '合并标签声明'],
+        ['localComment.removeProblemTag', removeTagFromProblem, '移除标签']
+    ];
+    const tagQuickFixCommands = tagQuickFixes.map(([command, fix, title]) =>
+        vscode.commands.registerCommand(command, async (item) => {
+            try {
+                if (await fix(tagHealth, item)) {
+                    tagManager.updateTags(commentManager.getAllComments());
+                    commentProvider.refresh();
+                    commentTreeProvider.refresh();
+                }
+            } catch (error) {
+                console.error(`${title}时发生错误:`, error);
+                vscode.window.showErrorMessage(`${title}时发生错误: ${error}`);
+            }
+        })
+    );
+
+    // 参数为 { tagName, newName? }（来自重命名提供器），或在所有标签中选择；返回是否完成了重命名
+    const renameTagCommand = vscode.commands.registerCommand('localComment.renameTag', async (args) => {
+        try {
+            const tagName = parseTagNameArg(args) ?? await pickTagName(tagManager, '选择要重命名的标签');
+            if (tagName && await renameTagEverywhere(tagHealth, tagName, args?.newName)) {
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+                return true;
+            }
+        } catch (error) {
+            console.error('重命名标签时发生错误:', error);
+            vscode.window.showErrorMessage(`重命名标签时发生错误: ${error}`);
+        }
+        return false;
+    });
+
+    const undoTagRenameCommand = vscode.commands.registerCommand('localComment.undoTagRename', async () => {
+        try {
+            if (await undoLastTagRename(tagHealth)) {
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+            }
+        } catch (error) {
+            console.error('撤销标签重命名时发生错误:', error);
+            vscode.window.showErrorMessage(`撤销标签重命名时发生错误: ${error}`);
+        }
+    });
+
+    // 在注释之外（悬停提示、命令面板）查找标签的所有声明与引用，选择后跳转
+    const findTagReferencesCommand = vscode.commands.registerCommand('localComment.findTagReferences', async (args) => {
+        try {
+            const tagName = parseTagNameArg(args) ?? await pickTagName(tagManager, '选择要查找引用的标签');
+            if (!tagName) {
+                return;
+            }
+            const sites = tagHealth.getReferencingSites(tagName);
+            if (sites.length === 0) {
+                vscode.window.showWarningMessage(`没有注释使用标签 ${tagName}`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(sites.map(site => ({
+                label: `${site.kind === 'declaration' ? '$(symbol-key) 声明' : site.wildcard ? `$(references) 通配引用 @${formatTagName({ name: site.tagName, wildcard: true })}` : '$(references) 引用'} ${path.basename(site.filePath)}:${site.line + 1}`,
+                description: vscode.workspace.asRelativePath(site.filePath),
+                detail: (tagHealth.getSiteContent(site) || '').split('\n')[0],
+                site
+            })), { placeHolder: `标签 ${tagName} 的 ${sites.length} 处声明与引用`, matchOnDetail: true });
+            if (picked) {
+                await vscode.commands.executeCommand('localComment.goToComment', picked.site.filePath, picked.site.line, picked.site.commentId);
+            }
+        } catch (error) {
+            console.error('查找标签引用时发生错误:', error);
+            vscode.window.showErrorMessage(`查找标签引用时发生错误: ${error}`);
+        }
+    });
+
+    // 评论线程（localComment.displayMode 为 commentsApi）中的操作
+    const threadSubmitCommand = vscode.commands.registerCommand('localComment.threadSubmit', async (reply: vscode.CommentReply) => {
+        try {
+            const thread = reply.thread;
+            const text = reply.text.trim();
+            if (text === '') {
+                return;
+            }
+
+            const commentId = commentThreadProvider.getCommentId(thread);
+            if (commentId) {
+                await commentManager.addReply(thread.uri, commentId, text);
+            } else {
+                // 在行号旁新建的线程：跨多行时作为范围注释
+                const document = await vscode.workspace.openTextDocument(thread.uri);
+                const range = thread.range || new vscode.Range(0, 0, 0, 0);
+                const selection = range.end.line > range.start.line
+                    ? new vscode.Range(range.start.line, 0, range.end.line, document.lineAt(range.end.line).text.length)
+                    : undefined;
+                await commentManager.addComment(thread.uri, range.start.line, text, selection);
+                thread.dispose();
+            }
+
+            tagManager.updateTags(commentManager.getAllComments());
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+        } catch (error) {
+            console.error('保存评论线程失败:', error);
+            vscode.window.showErrorMessage(`保存注释失败: ${error}`);
+        }
+    });
+
+    const threadCancelNewCommand = vscode.commands.registerCommand('localComment.threadCancelNew', (reply: vscode.CommentReply) => {
+        if (!commentThreadProvider.getCommentId(reply.thread)) {
+            reply.thread.dispose();
+        }
+    });
+
+    const threadEditCommand = vscode.commands.registerCommand('localComment.threadEdit', (comment: LocalThreadComment) => {
+        comment.startEditing();
+        commentThreadProvider.updateThreadComments(comment.thread);
+    });
+
+    const threadCancelEditCommand = vscode.commands.registerCommand('localComment.threadCancelEdit', (comment: LocalThreadComment) => {
+        comment.cancelEditing();
+        commentThreadProvider.updateThreadComments(comment.thread);
+    });
+
+    const threadSaveCommand = vscode.commands.registerCommand('localComment.threadSave', async (comment: LocalThreadComment) => {
+        const newContent = comment.getText().trim();
+        if (newContent === '') {
+            return;
+        }
+
+        if (comment.replyId) {
+            await commentManager.editReply(comment.thread.uri, comment.commentId, comment.replyId, newContent);
+        } else {
+            await commentManager.editComment(comment.thread.uri, comment.commentId, newContent);
+        }
+        comment.mode = vscode.CommentMode.Preview;
+        commentThreadProvider.updateThreadComments(comment.thread);
+        tagManager.updateTags(commentManager.getAllComments());
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    });
+
+    const threadDeleteCommand = vscode.commands.registerCommand('localComment.threadDelete', async (comment: LocalThreadComment) => {
+        if (comment.replyId) {
+            await commentManager.removeReply(comment.thread.uri, comment.commentId, comment.replyId);
+        } else {
+            await commentManager.removeCommentById(comment.thread.uri, comment.commentId);
+        }
+        tagManager.updateTags(commentManager.getAllComments());
+        commentProvider.refresh();
+        commentTreeProvider.refresh();
+    });
+
+    const threadResolveCommand = vscode.commands.registerCommand('localComment.threadResolve', async (thread: vscode.CommentThread) => {
+        const commentId = commentThreadProvider.getCommentId(thread);
+        if (commentId) {
+            await commentManager.setCommentAttributes(thread.uri, commentId, { status: 'done' });
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+        }
+    });
+
+    const threadUnresolveCommand = vscode.commands.registerCommand('localComment.threadUnresolve', async (thread: vscode.CommentThread) => {
+        const commentId = commentThreadProvider.getCommentId(thread);
+        if (commentId) {
+            // 重新打开的线程视为待办
+            await commentManager.setCommentAttributes(thread.uri, commentId, { status: 'todo' });
+            commentProvider.refresh();
+            commentTreeProvider.refresh();
+        }
+    });
+
+    const restoreArchivedCommand = vscode.commands.registerCommand('localComment.restoreArchived', async (item) => {
+        if (!item || !item.filePath || (item.contextValue !== 'archived-file' && item.contextValue !== 'archived-comment')) {
+            return;
+        }
+
+        try {
+            // 原文件已重新出现时直接恢复，否则让用户选择要挂到哪个文件
+            let targetPath: string = item.filePath;
+            if (!fs.existsSync(targetPath)) {
+                const targetUris = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                    openLabel: '恢复到此文件',
+                    title: `${path.basename(item.filePath)} 已不存在，选择要恢复到的文件`
+                });
+                if (!targetUris || targetUris.length === 0) {
+                    return;
+                }
+                targetPath = targetUris[0].fsPath;
+            }
+
+            const commentId = item.contextValue === 'archived-comment' ? item.comment?.id : undefined;
+            const restored = await commentManager.restoreArchived(item.filePath, targetPath, commentId);
+            vscode.window.showInformationMessage(`已将 ${restored} 条注释恢复到 ${vscode.workspace.asRelativePath(targetPath)}`);
+        } catch (error) {
+            console.error('恢复归档注释失败:', error);
+            vscode.window.showErrorMessage(`恢复归档注释失败: ${error}`);
+        }
+    });
+
+    const purgeArchivedCommand = vscode.commands.registerCommand('localComment.purgeArchived', async (item) => {
+        if (!item) {
+            return;
+        }
+
+        let message: string;
+        if (item.contextValue === 'archived-comment') {
+            message = '确定要彻底删除这条归档注释吗？';
+        } else if (item.contextValue === 'archived-file') {
+            message = `确定要彻底删除 ${path.basename(item.filePath)} 的所有归档注释吗？`;
+        } else if (item.contextValue === 'archive') {
+            message = '确定要清空所有归档注释吗？';
+        } else {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(message + '此操作无法撤销。', { modal: true }, '删除');
+        if (confirm !== '删除') {
+            return;
+        }
+
+        await commentManager.purgeArchived(
+            item.contextValue === 'archive' ? undefined : item.filePath,
+            item.contextValue === 'archived-comment' ? item.comment?.id : undefined
+        );
+    });
+
+    const goToCommentCommand = vscode.commands.registerCommand('localComment.goToComment', async (filePath: string, line: number, commentId?: string) => {
         try {
             const uri = vscode.Uri.file(filePath);
             
-            // 首先验证注释是否还能找到对应的代码
+            // 首先验证注释是否还能找到对应的代码；同一行有多条注释时按ID定位
             const fileComments = commentManager.getAllComments()[filePath] || [];
-            const targetComment = fileComments.find(c => c.originalLine === line || c.line === line);
+            const targetComment = commentId
+                ? fileComments.find(c => c.id === commentId)
+                : fileComments.find(c => c.originalLine === line || c.line === line);
             
             if (!targetComment) {
                 vscode.window.showWarningMessage(`找不到第 ${line + 1} 行的注释`);
@@ -225,10 +997,13 @@ export function registerCommands(
             const matchedComment = comments.find(c => c.id === targetComment.id);
             
             if (matchedComment) {
-                // 注释能找到对应代码，执行跳转到匹配位置
-                const position = new vscode.Position(matchedComment.line, 0);
-                editor.selection = new vscode.Selection(position, position);
-                editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+                // 注释能找到对应代码，执行跳转到匹配位置；范围注释选中并高亮整个范围
+                const range = matchedComment.range
+                    ? commentProvider.getCommentRange(document, matchedComment)
+                    : new vscode.Range(matchedComment.line, 0, matchedComment.line, 0);
+                editor.selection = new vscode.Selection(range.start, range.end);
+                editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+                commentProvider.highlightCommentRange(editor, matchedComment);
                 
                 // 如果位置发生了变化，提示用户
                 if (matchedComment.line !== targetComment.line) {
@@ -297,11 +1072,41 @@ export function registerCommands(
                 return;
             }
             
-            // 查找标签声明
-            const declaration = tagManager.getTagDeclaration(tagName);
+            // 链接中的标签名是注释原文：统一层级分隔符，@auth.* 在 auth 的所有子标签中选择
+            const [tag] = parseTags(`@${tagName}`);
+            const wildcard = tag?.text === `@${tagName}` && !!tag.wildcard;
+            if (tag?.text === `@${tagName}`) {
+                tagName = tag.name;
+            }
+
+            // 查找标签声明，重复声明或通配引用时由用户选择
+            const declarations = tagManager.getAllTagDeclarations()
+                .filter(d => wildcard ? isTagDescendant(d.tagName, tagName) : d.tagName === tagName);
             
+            if (declarations.length === 0) {
+                const choice = await vscode.window.showWarningMessage(
+                    wildcard ? `标签 ${tagName} 没有任何子标签` : `找不到标签 $${tagName} 的声明`,
+                    '查看标签问题'
+                );
+                if (choice === '查看标签问题') {
+                    await vscode.commands.executeCommand('localCommentTagProblems.focus');
+                }
+                return;
+            }
+            const declaration = declarations.length === 1 && !wildcard ? declarations[0] : (await vscode.window.showQuickPick(
+                declarations.map(d => ({
+                    label: wildcard ? `$${d.tagName}` : `${path.basename(d.filePath)}:${d.line + 1}`,
+                    description: wildcard ? `${path.basename(d.filePath)}:${d.line + 1}` : vscode.workspace.asRelativePath(d.filePath),
+                    detail: d.content.split('\n')[0],
+                    declaration: d
+                })),
+                {
+                    placeHolder: wildcard
+                        ? `@${formatTagName({ name: tagName, wildcard })} 引用了 ${declarations.length} 个子标签，选择要跳转的标签`
+                        : `标签 $${tagName} 有 ${declarations.length} 处声明，选择要跳转的位置`
+                }
+            ))?.declaration;
             if (!declaration) {
-                vscode.window.showWarningMessage(`找不到标签 $${tagName} 的声明`);
                 return;
             }
             
@@ -332,7 +1137,12 @@ export function registerCommands(
         const selection = editor.selection;
         const line = selection.active.line;
         
-        await commentManager.removeComment(editor.document.uri, line);
+        const comment = await pickCommentAtLine(commentManager.getComments(editor.document.uri), line, '选择要删除的注释');
+        if (!comment) {
+            return;
+        }
+
+        await commentManager.removeCommentById(editor.document.uri, comment.id);
         tagManager.updateTags(commentManager.getAllComments());
         commentProvider.refresh();
         commentTreeProvider.refresh();
@@ -440,7 +1250,8 @@ export function registerCommands(
                     fileName,
                     lineNumber: comment.line,
                     lineContent
-                }
+                },
+                tagManager
             );
 
             if (newContent !== undefined && newContent !== comment.content) {
@@ -520,12 +1331,9 @@ export function registerCommands(
         const selection = editor.selection;
         const line = selection.active.line;
         
-        // 获取当前行的注释
-        const comments = commentManager.getComments(editor.document.uri);
-        const comment = comments.find(c => c.line === line);
-        
+        // 获取当前行的注释，有多条时让用户选择
+        const comment = await pickCommentAtLine(commentManager.getComments(editor.document.uri), line, '选择要编辑的注释');
         if (!comment) {
-            vscode.window.showWarningMessage(`第 ${line + 1} 行没有本地注释`);
             return;
         }
 
@@ -549,13 +1357,14 @@ export function registerCommands(
         }
     });
 
-    const editCommentCommand = vscode.commands.registerCommand('localComment.editComment', async (uri: vscode.Uri, line: number) => {
+    const editCommentCommand = vscode.commands.registerCommand('localComment.editComment', async (uri: vscode.Uri, line: number, commentId?: string) => {
         try {
             const comments = commentManager.getComments(uri);
-            const comment = comments.find(c => c.line === line);
+            const comment = commentId
+                ? comments.find(c => c.id === commentId)
+                : await pickCommentAtLine(comments, line, '选择要编辑的注释');
             
             if (!comment) {
-                vscode.window.showErrorMessage('找不到指定的注释');
                 return;
             }
             
@@ -575,7 +1384,8 @@ export function registerCommands(
                     fileName,
                     lineNumber: comment.line,
                     lineContent
-                }
+                },
+                tagManager
             );
             
             if (newContent !== undefined && newContent.trim() !== '') {
@@ -609,7 +1419,8 @@ export function registerCommands(
                     fileName,
                     lineNumber: item.comment.line,
                     lineContent
-                }
+                },
+                tagManager
             );
 
             if (newContent !== undefined && newContent !== item.comment.content) {
@@ -629,7 +1440,8 @@ export function registerCommands(
             return;
         }
 
-        const line = editor.selection.active.line;
+        // 有选中内容时注释覆盖整个选区，锚定在选区的起始行
+        const line = editor.selection.isEmpty ? editor.selection.active.line : editor.selection.start.line;
         
         try {
             // 使用单行快速输入界面
@@ -641,7 +1453,7 @@ export function registerCommands(
             );
             
             if (content !== undefined && content.trim() !== '') {
-                await commentManager.addComment(editor.document.uri, line, content);
+                await commentManager.addComment(editor.document.uri, line, content, editor.selection);
                 // 刷新标签和界面
                 tagManager.updateTags(commentManager.getAllComments());
                 commentProvider.refresh();
@@ -661,60 +1473,34 @@ export function registerCommands(
             return;
         }
 
-        const line = editor.selection.active.line;
+        const selection = editor.selection;
+        const line = selection.isEmpty ? selection.active.line : selection.start.line;
         const document = editor.document;
         const lineContent = document.lineAt(line).text;
         const fileName = document.fileName.split(/[/\\]/).pop() || '';
         
-        // 检查当前行是否已有注释
-        const comments = commentManager.getComments(editor.document.uri);
-        const existingComment = comments.find(c => c.line === line);
-        
         try {
-            if (existingComment) {
-                // 如果有现有注释，进入编辑模式
-                const newContent = await showWebViewInput(
-                    context,
-                    '编辑多行本地注释',
-                    '支持 Markdown 语法和多行输入，使用 $标签名 声明标签，使用 @标签名 引用标签',
-                    existingComment.content,
-                    {
-                        fileName,
-                        lineNumber: line,
-                        lineContent
-                    }
-                );
-                
-                if (newContent !== undefined && newContent !== existingComment.content) {
-                    await commentManager.editComment(editor.document.uri, existingComment.id, newContent);
-                    // 刷新标签和界面
-                    tagManager.updateTags(commentManager.getAllComments());
-                    commentProvider.refresh();
-                    commentTreeProvider.refresh();
-                    vscode.window.showInformationMessage('注释已更新');
-                }
-            } else {
-                // 如果没有现有注释，添加新注释
-                const content = await showWebViewInput(
-                    context,
-                    '添加多行本地注释',
-                    '支持 Markdown 语法和多行输入，使用 $标签名 声明标签，使用 @标签名 引用标签',
-                    '',
-                    {
-                        fileName,
-                        lineNumber: line,
-                        lineContent
-                    }
-                );
-                
-                if (content !== undefined && content.trim() !== '') {
-                    await commentManager.addComment(editor.document.uri, line, content);
-                    // 刷新标签和界面
-                    tagManager.updateTags(commentManager.getAllComments());
-                    commentProvider.refresh();
-                    commentTreeProvider.refresh();
-                    vscode.window.showInformationMessage('注释已添加');
-                }
+            // 同一行可以有多条注释，总是添加新注释；编辑已有注释请使用悬停或注释树中的编辑按钮
+            const content = await showWebViewInput(
+                context,
+                '添加多行本地注释',
+                '支持 Markdown 语法和多行输入，使用 $标签名 声明标签，使用 @标签名 引用标签',
+                '',
+                {
+                    fileName,
+                    lineNumber: line,
+                    lineContent
+                },
+                tagManager
+            );
+            
+            if (content !== undefined && content.trim() !== '') {
+                await commentManager.addComment(editor.document.uri, line, content, selection);
+                // 刷新标签和界面
+                tagManager.updateTags(commentManager.getAllComments());
+                commentProvider.refresh();
+                commentTreeProvider.refresh();
+                vscode.window.showInformationMessage('注释已添加');
             }
         } catch (error) {
             console.error('处理多行注释时出错:', error);
@@ -759,10 +1545,41 @@ export function registerCommands(
         showStorageLocationCommand,
         showStorageStatsCommand,
         manageProjectsCommand,
+        restoreFromBackupCommand,
+        exportCommentsCommand,
+        importCommentsCommand,
         toggleCommentsCommand,
         refreshCommentsCommand,
         refreshTreeCommand,
         deleteCommentFromTreeCommand,
+        replyToCommentCommand,
+        removeReplyFromHoverCommand,
+        setStatusCommand,
+        setPriorityCommand,
+        setCategoryCommand,
+        groupTreeByCommand,
+        filterTreeCommand,
+        clearTreeFilterCommand,
+        reanchorCommentCommand,
+        reanchorAllCommentsCommand,
+        reconcileNowCommand,
+        explainMatchCommand,
+        checkTagMigrationCommand,
+        refreshTagProblemsCommand,
+        ...tagQuickFixCommands,
+        renameTagCommand,
+        undoTagRenameCommand,
+        findTagReferencesCommand,
+        threadSubmitCommand,
+        threadCancelNewCommand,
+        threadEditCommand,
+        threadCancelEditCommand,
+        threadSaveCommand,
+        threadDeleteCommand,
+        threadResolveCommand,
+        threadUnresolveCommand,
+        restoreArchivedCommand,
+        purgeArchivedCommand,
         goToCommentCommand,
         goToTagDeclarationCommand,
         removeCommentCommand,
@@ -776,4 +1593,78 @@ export function registerCommands(
         addMarkdownCommentCommand,
         convertSelectionToCommentCommand
     ];
-} 
\ No newline at end of file
+}
+
+/**
+ * 解析修改注释属性的命令参数：注释树节点，或悬停提示链接中的 JSON 参数
+ */
+function resolveCommentTarget(args: any): { uri: vscode.Uri; commentId: string; args: any } | undefined {
+    if (args && args.contextValue) {
+        return args.filePath && args.comment
+            ? { uri: vscode.Uri.file(args.filePath), commentId: args.comment.id, args: {} }
+            : undefined;
+    }
+    const parsedArgs = typeof args === 'string' ? JSON.parse(args) : args;
+    return parsedArgs?.uri && parsedArgs.commentId
+        ? { uri: vscode.Uri.parse(parsedArgs.uri), commentId: parsedArgs.commentId, args: parsedArgs }
+        : undefined;
+}
+
+/**
+ * 选择某一行上的注释：没有注释时提示，只有一条时直接返回，多条时让用户选择
+ */
+async function pickCommentAtLine(comments: LocalComment[], line: number, placeHolder: string): Promise<LocalComment | undefined> {
+    const lineComments = comments.filter(c => c.line === line);
+    if (lineComments.length === 0) {
+        vscode.window.showWarningMessage(`第 ${line + 1} 行没有本地注释`);
+        return undefined;
+    }
+    if (lineComments.length === 1) {
+        return lineComments[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(lineComments.map(comment => ({
+        label: comment.content.split('\n')[0],
+        description: new Date(comment.timestamp).toLocaleString(),
+        detail: comment.replies ? `${comment.replies.length} 条回复` : undefined,
+        comment
+    })), { placeHolder });
+    return picked?.comment;
+}
+
+/**
+ * 解析标签命令的参数：标签名字符串、{ tagName } 对象或悬停提示链接中的 JSON
+ */
+function parseTagNameArg(args: any): string | undefined {
+    let tagName: string | undefined;
+    if (typeof args === 'string') {
+        try {
+            tagName = JSON.parse(args).tagName;
+        } catch {
+            tagName = args;
+        }
+    } else {
+        tagName = args && typeof args.tagName === 'string' ? args.tagName : undefined;
+    }
+    // 链接中的标签名是注释原文，auth/session 统一为 auth.session
+    const [tag] = tagName ? parseTags(`$${tagName}`) : [];
+    return tag?.text === `$${tagName}` ? tag.name : tagName;
+}
+
+/**
+ * 在所有已声明和被引用的标签中选择一个
+ */
+async function pickTagName(tagManager: TagManager, placeHolder: string): Promise<string | undefined> {
+    const declared = tagManager.getAvailableTagNames();
+    const undeclared = [...new Set(tagManager.getTagReferences().filter(ref => !ref.wildcard).map(ref => ref.tagName))].filter(name => !declared.includes(name)).sort();
+    if (declared.length + undeclared.length === 0) {
+        vscode.window.showInformationMessage('还没有任何标签');
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick([
+        ...declared.map(name => ({ label: `$${name}`, description: `${tagManager.getReferencesForTag(name).length} 处引用`, tagName: name })),
+        ...undeclared.map(name => ({ label: `@${name}`, description: '未声明', tagName: name }))
+    ], { placeHolder });
+    return picked?.tagName;
+}
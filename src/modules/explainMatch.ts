@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { CommentManager } from '../commentManager';
+import { MatchTrace, getMatcherOptions } from '../commentMatcher';
+
+const NORMALIZATION_LABELS: Record<string, string> = {
+    ignoreWhitespace: '空白',
+    ignoreTrailingPunctuation: '行尾标点',
+    ignoreQuoteStyle: '引号风格',
+    ignoreInlineComments: '行内代码注释'
+};
+
+/**
+ * 以 Markdown 文档说明注释为什么匹配、移动或被隐藏
+ */
+export async function explainMatch(commentManager: CommentManager, filePath: string, commentId: string): Promise<void> {
+    const comment = commentManager.getAllComments()[filePath]?.find(c => c.id === commentId);
+    const explanation = comment && commentManager.explainMatch(filePath, commentId);
+    if (!comment || !explanation) {
+        vscode.window.showWarningMessage(comment ? '无法读取注释所在的文件' : '找不到指定的注释');
+        return;
+    }
+
+    const { trace, source } = explanation;
+    const options = getMatcherOptions(source.languageId);
+    const { thresholds } = options;
+    const ignored = Object.entries(options.normalization).filter(([, enabled]) => enabled).map(([key]) => NORMALIZATION_LABELS[key]);
+    const lineText = (line: number) => line >= 0 && line < source.lineCount ? source.lineAt(line).text.trim() : '';
+
+    const lines: string[] = [
+        '# 注释匹配说明',
+        '',
+        `- 文件: \`${vscode.workspace.asRelativePath(filePath)}\``,
+        `- 注释: ${comment.content.split('\n')[0]}`,
+        `- 保存的位置: 第 ${comment.line + 1} 行`,
+        `- 结论: ${getOutcomeIcon(trace, comment.line)} ${trace.outcome}`,
+        '',
+        '## 匹配设置',
+        '',
+        `- 语言: ${source.languageId || '未知'}`,
+        `- 预设: ${options.preset}`,
+        `- 代码比较: ${ignored.length > 0 ? `忽略${ignored.join('、')}的差异` : '严格（去掉首尾空白后必须完全一致）'}`,
+        trace.searchRange !== undefined
+            ? `- 搜索范围: ±${trace.searchRange} 行（第 ${trace.startLine! + 1}-${trace.endLine! + 1} 行）`
+            : '- 搜索范围: 未搜索',
+        `- 特征性不足时要求的上下文吻合程度: ${Math.round(thresholds.minContextScore * 100)}%`,
+        `- 特征性不足的关键字: ${thresholds.weakKeywords.join(', ')}`,
+        '',
+        '## 锚定代码',
+        '',
+        `- 代码本身${trace.isDistinctive ? '有' : '缺少'}足够的特征性`,
+        `- 上下文${trace.isContextDistinctive ? '有' : '缺少'}足够的特征性`,
+        '',
+        '保存的快照:',
+        '',
+        ...codeBlock(comment.rangeContent && comment.rangeContent.length > 0 ? comment.rangeContent : [comment.lineContent || '']),
+        '',
+        '标准化后用于比较的代码:',
+        '',
+        ...codeBlock(trace.anchor),
+        ''
+    ];
+
+    if ((comment.contextBefore || []).length + (comment.contextAfter || []).length > 0) {
+        lines.push(
+            '保存的上下文（`>>>` 为锚定代码的位置）:',
+            '',
+            ...codeBlock([...[...(comment.contextBefore || [])].reverse(), '>>>', ...(comment.contextAfter || [])]),
+            ''
+        );
+    }
+
+    lines.push('## 候选行', '');
+    if (trace.candidates.length === 0) {
+        lines.push('搜索范围内没有与快照一致的代码。', '');
+    } else {
+        lines.push('| 行 | 当前代码 | 上下文吻合 | 得分 | 结果 |', '| --- | --- | --- | --- | --- |');
+        for (const candidate of trace.candidates) {
+            const result = candidate.line === trace.matchedLine ? '✅ 采用' : candidate.rejected ? `❌ ${candidate.rejected}` : '得分较低';
+            lines.push(`| ${candidate.line + 1} | ${tableCell(lineText(candidate.line))} | ${formatPercent(candidate.contextScore)} | ${candidate.score?.toFixed(3) ?? '-'} | ${result} |`);
+        }
+        lines.push('');
+    }
+
+    // 被隐藏的注释列出最相似的代码，便于判断是否需要重新定位
+    if (trace.matchedLine === -1) {
+        const similar = commentManager.rankAnchorCandidates(comment, source, 3);
+        lines.push('## 最相似的代码', '');
+        if (similar.length === 0) {
+            lines.push('文件中没有相似的代码，对应的代码可能已被删除或移动到其他文件。', '');
+        } else {
+            for (const candidate of similar) {
+                lines.push(`- 第 ${candidate.line + 1} 行（相似度 ${formatPercent(candidate.similarity)}）: \`${lineText(candidate.line).replace(/`/g, '\'')}\``);
+            }
+            lines.push('', '可以在注释树中对这条注释执行"重新定位注释"。', '');
+        }
+    }
+
+    const document = await vscode.workspace.openTextDocument({ content: lines.join('\n'), language: 'markdown' });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+function getOutcomeIcon(trace: MatchTrace, originalLine: number): string {
+    if (trace.matchedLine === -1) {
+        return '🚫';
+    }
+    return trace.matchedLine === originalLine ? '✅' : '🔀';
+}
+
+function codeBlock(content: string[]): string[] {
+    return ['```', ...content, '```'];
+}
+
+function tableCell(text: string): string {
+    return `\`${text.replace(/\|/g, '\\|').replace(/`/g, '\'')}\``;
+}
+
+function formatPercent(value: number | undefined): string {
+    return value === undefined ? '-' : `${Math.round(value * 100)}%`;
+}
@@ -0,0 +1,350 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { CommentManager, FileComments, ImportConflictStrategy, LocalComment } from '../commentManager';
+import { STATUS_LABELS, PRIORITY_LABELS, getStatus } from '../commentAppearance';
+
+// 导出文件的格式标识，导入时用于区分导出文件与原始存储文件
+const EXPORT_FORMAT = 'local-comment-export';
+const EXPORT_VERSION = 1;
+
+interface ExportFile {
+    format: string;
+    version: number;
+    exportedAt: number;
+    project: string;
+    comments: FileComments; // 键为相对工作区的路径，多根工作区带文件夹名前缀
+}
+
+type ExportFormat = 'json' | 'markdown' | 'csv';
+
+/**
+ * 导出注释：选择范围（整个项目、文件夹或单个文件）与格式后写入文件
+ */
+export async function exportComments(commentManager: CommentManager): Promise<void> {
+    const allComments = commentManager.getAllComments();
+    if (Object.keys(allComments).length === 0) {
+        vscode.window.showInformationMessage('暂无本地注释可导出');
+        return;
+    }
+
+    const scope = await vscode.window.showQuickPick([
+        { label: '$(project) 整个项目', value: 'project' },
+        { label: '$(folder) 文件夹', value: 'folder' },
+        { label: '$(file) 单个文件', value: 'file' }
+    ], { placeHolder: '选择导出范围' });
+    if (!scope) {
+        return;
+    }
+
+    const selected = await selectCommentsInScope(allComments, scope.value);
+    if (!selected || Object.keys(selected).length === 0) {
+        if (selected) {
+            vscode.window.showInformationMessage('所选范围内没有本地注释');
+        }
+        return;
+    }
+
+    const format = await vscode.window.showQuickPick([
+        { label: 'JSON', description: '可重新导入的完整数据', value: 'json' as ExportFormat },
+        { label: 'Markdown', description: '按文件分组的可读报告，包含代码快照', value: 'markdown' as ExportFormat },
+        { label: 'CSV', description: '便于在表格软件中查看', value: 'csv' as ExportFormat }
+    ], { placeHolder: '选择导出格式' });
+    if (!format) {
+        return;
+    }
+
+    const extension = { json: 'json', markdown: 'md', csv: 'csv' }[format.value];
+    const projectName = commentManager.getProjectInfo().name;
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const targetUri = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder
+            ? vscode.Uri.joinPath(defaultFolder, `${projectName}-local-comments.${extension}`)
+            : undefined,
+        filters: { [format.label]: [extension] }
+    });
+    if (!targetUri) {
+        return;
+    }
+
+    let content: string;
+    switch (format.value) {
+        case 'markdown':
+            content = toMarkdown(selected, projectName);
+            break;
+        case 'csv':
+            content = toCsv(selected);
+            break;
+        default:
+            content = toJson(selected, projectName);
+    }
+
+    try {
+        fs.writeFileSync(targetUri.fsPath, content, 'utf8');
+    } catch (error) {
+        vscode.window.showErrorMessage(`无法导出注释: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    const commentCount = Object.values(selected).reduce((sum, comments) => sum + comments.length, 0);
+
+    const choice = await vscode.window.showInformationMessage(
+        `已导出 ${Object.keys(selected).length} 个文件的 ${commentCount} 条注释`,
+        '打开文件'
+    );
+    if (choice === '打开文件') {
+        vscode.window.showTextDocument(targetUri);
+    }
+}
+
+/**
+ * 导入注释：支持导出的 JSON 文件以及项目存储文件，按注释ID合并并重新匹配代码位置
+ */
+export async function importComments(commentManager: CommentManager): Promise<boolean> {
+    const sourceUris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ['json'] },
+        openLabel: '导入'
+    });
+    if (!sourceUris || sourceUris.length === 0) {
+        return false;
+    }
+
+    let imported: FileComments;
+    try {
+        imported = parseImportFile(fs.readFileSync(sourceUris[0].fsPath, 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`无法导入注释: ${error instanceof Error ? error.message : error}`);
+        return false;
+    }
+
+    const strategy = await vscode.window.showQuickPick([
+        { label: '保留本地', description: 'ID 冲突时保留当前的注释', value: 'keepMine' as ImportConflictStrategy },
+        { label: '使用导入的', description: 'ID 冲突时用导入的注释覆盖', value: 'keepTheirs' as ImportConflictStrategy },
+        { label: '两者都保留', description: 'ID 冲突时以新 ID 添加导入的注释', value: 'keepBoth' as ImportConflictStrategy }
+    ], { placeHolder: '选择注释 ID 冲突时的处理方式' });
+    if (!strategy) {
+        return false;
+    }
+
+    const result = await commentManager.importComments(resolveImportPaths(imported), strategy.value);
+
+    // 重新匹配导入文件中的注释，区分能定位和无法定位的注释
+    let anchored = 0;
+    let unanchored = 0;
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: '正在匹配导入的注释...'
+    }, async () => {
+        for (const filePath of result.files) {
+            const counts = await commentManager.matchFileComments(vscode.Uri.file(filePath));
+            anchored += counts.anchored;
+            unanchored += counts.unanchored;
+        }
+    });
+
+    let message = `导入完成：新增 ${result.added} 条`;
+    if (result.replaced > 0) {
+        message += `，覆盖 ${result.replaced} 条`;
+    }
+    if (result.duplicated > 0) {
+        message += `，保留副本 ${result.duplicated} 条`;
+    }
+    if (result.skipped > 0) {
+        message += `，跳过 ${result.skipped} 条`;
+    }
+    message += `。已定位 ${anchored} 条，未定位 ${unanchored} 条`;
+    vscode.window.showInformationMessage(message);
+    return true;
+}
+
+async function selectCommentsInScope(allComments: FileComments, scope: string): Promise<FileComments | undefined> {
+    if (scope === 'project') {
+        return allComments;
+    }
+
+    if (scope === 'folder') {
+        const folderUris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: '导出此文件夹'
+        });
+        if (!folderUris || folderUris.length === 0) {
+            return undefined;
+        }
+        const folderPath = folderUris[0].fsPath;
+        const selected: FileComments = {};
+        for (const [filePath, comments] of Object.entries(allComments)) {
+            const relative = path.relative(folderPath, filePath);
+            if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                selected[filePath] = comments;
+            }
+        }
+        return selected;
+    }
+
+    const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const items = Object.keys(allComments)
+        .filter(filePath => allComments[filePath].length > 0)
+        .map(filePath => ({
+            label: path.basename(filePath),
+            description: vscode.workspace.asRelativePath(filePath),
+            detail: `${allComments[filePath].length} 条注释`,
+            filePath
+        }))
+        .sort((a, b) => (a.filePath === activeFile ? -1 : b.filePath === activeFile ? 1 : 0));
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择要导出的文件' });
+    return picked ? { [picked.filePath]: allComments[picked.filePath] } : undefined;
+}
+
+function toJson(fileComments: FileComments, projectName: string): string {
+    const comments: FileComments = {};
+    for (const [filePath, fileCommentList] of Object.entries(fileComments)) {
+        // 去掉运行时状态，只导出注释本身
+        comments[toExportPath(filePath)] = fileCommentList.map(({ isMatched, ...comment }) => comment as LocalComment);
+    }
+
+    const exportFile: ExportFile = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: Date.now(),
+        project: projectName,
+        comments
+    };
+    return JSON.stringify(exportFile, null, 2);
+}
+
+function toMarkdown(fileComments: FileComments, projectName: string): string {
+    let markdown = `# ${projectName} 本地注释\n\n`;
+    markdown += `> 导出时间: ${new Date().toLocaleString()}\n\n`;
+
+    for (const filePath of Object.keys(fileComments).sort()) {
+        const comments = [...fileComments[filePath]].sort((a, b) => a.line - b.line);
+        const language = path.extname(filePath).substring(1);
+
+        markdown += `## ${toExportPath(filePath)}\n\n`;
+        for (const comment of comments) {
+            const lineLabel = comment.range && comment.range.endLine > comment.range.startLine
+                ? `${comment.range.startLine + 1}-${comment.range.endLine + 1}`
+                : `${comment.line + 1}`;
+            const attributes = [STATUS_LABELS[getStatus(comment)]];
+            if (comment.priority) {
+                attributes.push(`${PRIORITY_LABELS[comment.priority]}优先级`);
+            }
+            if (comment.category) {
+                attributes.push(comment.category);
+            }
+            markdown += `### 第 ${lineLabel} 行 [${attributes.join(' · ')}]\n\n`;
+            // 范围注释导出整个范围的代码快照
+            const snapshot = comment.rangeContent ? comment.rangeContent.join('\n') : comment.lineContent;
+            if (snapshot) {
+                const fence = codeFence(snapshot);
+                markdown += fence + language + '\n' + snapshot + '\n' + fence + '\n\n';
+            }
+            markdown += `${comment.content}\n\n`;
+            markdown += `*${new Date(comment.timestamp).toLocaleString()}*\n\n`;
+            for (const reply of comment.replies || []) {
+                markdown += reply.content.split('\n').map(line => `> ${line}`).join('\n') + '\n>\n';
+                markdown += `> *${new Date(reply.timestamp).toLocaleString()}*\n\n`;
+            }
+        }
+    }
+
+    return markdown;
+}
+
+/**
+ * 比代码中最长的连续反引号多一个的代码块围栏，代码中含有 ``` 时也不会提前结束
+ */
+function codeFence(code: string): string {
+    const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function toCsv(fileComments: FileComments): string {
+    const escapeCsv = (value: string | number): string => {
+        const text = String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [['id', 'file', 'line', 'code', 'content', 'status', 'priority', 'category', 'timestamp']];
+    for (const [filePath, comments] of Object.entries(fileComments)) {
+        for (const comment of comments) {
+            rows.push([
+                comment.id,
+                toExportPath(filePath),
+                String(comment.line + 1),
+                comment.lineContent || '',
+                comment.content,
+                getStatus(comment),
+                comment.priority || '',
+                comment.category || '',
+                new Date(comment.timestamp).toISOString()
+            ]);
+        }
+    }
+
+    // 带 BOM 以便表格软件正确识别 UTF-8 中文
+    return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+/**
+ * 导出时使用相对工作区的路径，多根工作区带上文件夹名以便导入时定位
+ */
+function toExportPath(filePath: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!folder) {
+        return filePath;
+    }
+    const relative = path.relative(folder.uri.fsPath, filePath).split(path.sep).join('/');
+    return (vscode.workspace.workspaceFolders || []).length > 1 ? `${folder.name}/${relative}` : relative;
+}
+
+/**
+ * 解析导入文件：支持导出文件、带版本信息的存储文件以及旧版的纯注释映射
+ */
+function parseImportFile(content: string): FileComments {
+    const data = JSON.parse(content);
+    let comments: unknown;
+
+    if (data && data.format === EXPORT_FORMAT) {
+        comments = data.comments;
+    } else if (data && typeof data.schemaVersion === 'number') {
+        comments = data.comments;
+    } else {
+        comments = data;
+    }
+
+    if (!comments || typeof comments !== 'object' || Array.isArray(comments) ||
+        !Object.values(comments).every(list => Array.isArray(list) &&
+            list.every(c => c && typeof c.id === 'string' && typeof c.line === 'number' && typeof c.content === 'string'))) {
+        throw new Error('文件不是有效的本地注释数据');
+    }
+
+    return comments as FileComments;
+}
+
+/**
+ * 将导入数据中的相对路径解析为当前工作区的绝对路径
+ */
+function resolveImportPaths(imported: FileComments): FileComments {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const resolved: FileComments = {};
+
+    for (const [key, comments] of Object.entries(imported)) {
+        let filePath = key;
+        if (!path.isAbsolute(key) && workspaceFolders.length > 0) {
+            const [firstSegment, ...rest] = key.split('/');
+            const namedFolder = workspaceFolders.length > 1
+                ? workspaceFolders.find(folder => folder.name === firstSegment)
+                : undefined;
+            filePath = namedFolder
+                ? path.join(namedFolder.uri.fsPath, ...rest)
+                : path.join(workspaceFolders[0].uri.fsPath, ...key.split('/'));
+        }
+        resolved[filePath] = (resolved[filePath] || []).concat(comments);
+    }
+
+    return resolved;
+}
@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommentManager, LocalComment } from '../commentManager';
+import { AnchorCandidate, LineSource } from '../commentMatcher';
+import { findWorkspaceFiles, getSearchKeywords, readFileSource } from '../workspaceFiles';
+
+// 预览旧快照与候选代码时使用的虚拟文档
+const SNAPSHOT_SCHEME = 'local-comment-snapshot';
+
+interface CandidateLocation extends AnchorCandidate {
+    filePath: string;
+}
+
+type WizardResult = 'reanchored' | 'skipped' | 'stopped';
+
+/**
+ * 只读的预览文档内容，修改后通知编辑器刷新
+ */
+class SnapshotPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private contents: Map<string, string> = new Map();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    public setContent(uri: vscode.Uri, content: string): void {
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) || '';
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * 重新定位一条无法匹配的注释
+ */
+export async function reanchorComment(commentManager: CommentManager, filePath: string, commentId: string): Promise<boolean> {
+    const comment = commentManager.getAllComments()[filePath]?.find(c => c.id === commentId);
+    if (!comment) {
+        vscode.window.showWarningMessage('找不到指定的注释');
+        return false;
+    }
+
+    return withPreview(async preview => (await runWizard(commentManager, preview, filePath, comment)) === 'reanchored');
+}
+
+/**
+ * 批量模式：依次处理项目中所有无法匹配的注释
+ * @returns 是否有注释被重新定位
+ */
+export async function reanchorAllComments(commentManager: CommentManager): Promise<boolean> {
+    const orphans = commentManager.findUnmatchedComments();
+    if (orphans.length === 0) {
+        vscode.window.showInformationMessage('所有本地注释都已匹配到代码');
+        return false;
+    }
+
+    let reanchored = 0;
+    let skipped = 0;
+    await withPreview(async preview => {
+        for (const [index, { filePath, comment }] of orphans.entries()) {
+            const result = await runWizard(commentManager, preview, filePath, comment, `(${index + 1}/${orphans.length}) `);
+            if (result === 'stopped') {
+                break;
+            }
+            if (result === 'reanchored') {
+                reanchored++;
+            } else {
+                skipped++;
+            }
+        }
+    });
+
+    vscode.window.showInformationMessage(`重新定位完成：已定位 ${reanchored} 条，跳过 ${skipped} 条，共 ${orphans.length} 条无法匹配的注释`);
+    return reanchored > 0;
+}
+
+/**
+ * 注册预览文档，结束后关闭预览并释放
+ */
+async function withPreview<T>(run: (preview: SnapshotPreviewProvider) => Promise<T>): Promise<T> {
+    const preview = new SnapshotPreviewProvider();
+    const registration = vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, preview);
+    try {
+        return await run(preview);
+    } finally {
+        const previewTabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === SNAPSHOT_SCHEME);
+        await vscode.window.tabGroups.close(previewTabs);
+        registration.dispose();
+        preview.dispose();
+    }
+}
+
+/**
+ * 为一条注释选择新位置：候选位置按相似度排序，选中时并排预览旧快照与候选代码
+ * @param titlePrefix 批量模式下显示进度
+ */
+async function runWizard(
+    commentManager: CommentManager,
+    preview: SnapshotPreviewProvider,
+    filePath: string,
+    comment: LocalComment,
+    titlePrefix: string = ''
+): Promise<WizardResult> {
+    const isBulk = titlePrefix !== '';
+    const source = commentManager.getLineSource(filePath);
+    let candidates: CandidateLocation[] = source
+        ? commentManager.rankAnchorCandidates(comment, source).map(candidate => ({ ...candidate, filePath }))
+        : [];
+    let searchedWorkspace = false;
+
+    while (true) {
+        type WizardItem = vscode.QuickPickItem & { candidate?: CandidateLocation; action?: 'workspace' | 'manual' | 'skip' | 'stop' };
+        const sources = new Map<string, LineSource | undefined>();
+        const items: WizardItem[] = candidates.map(candidate => {
+            if (!sources.has(candidate.filePath)) {
+                sources.set(candidate.filePath, readFileSource(candidate.filePath));
+            }
+            return {
+                label: `$(target) 第 ${candidate.line + 1} 行`,
+                description: `相似度 ${Math.round(candidate.similarity * 100)}% · 上下文 ${Math.round(candidate.contextScore * 100)}%` +
+                    (candidate.filePath !== filePath ? ` · ${vscode.workspace.asRelativePath(candidate.filePath)}` : ''),
+                detail: sources.get(candidate.filePath)?.lineAt(candidate.line).text.trim(),
+                candidate
+            };
+        });
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+        if (!searchedWorkspace) {
+            items.push({ label: '$(search) 在整个工作区中查找...', action: 'workspace' });
+        }
+        if (source) {
+            items.push({ label: '$(edit) 手动输入行号...', action: 'manual' });
+        }
+        if (isBulk) {
+            items.push({ label: '$(debug-step-over) 跳过这条注释', action: 'skip' }, { label: '$(close) 结束批量定位', action: 'stop' });
+        }
+
+        const picked = await pickWithPreview(preview, comment, filePath, items, {
+            title: `${titlePrefix}重新定位注释: ${comment.content.split('\n')[0]}`,
+            placeHolder: candidates.length > 0
+                ? `${vscode.workspace.asRelativePath(filePath)} 原第 ${comment.line + 1} 行的注释，选择新位置`
+                : '没有找到相似的代码，可以在工作区中查找或手动输入行号'
+        });
+
+        if (!picked) {
+            return isBulk ? 'stopped' : 'skipped';
+        }
+        if (picked.action === 'skip') {
+            return 'skipped';
+        }
+        if (picked.action === 'stop') {
+            return 'stopped';
+        }
+        if (picked.action === 'workspace') {
+            const found = await searchWorkspace(commentManager, comment);
+            if (found) {
+                searchedWorkspace = true;
+                // 合并当前文件与工作区的候选，同一位置只保留一个
+                const seen = new Set(candidates.map(candidate => `${candidate.filePath}:${candidate.line}`));
+                candidates = [...candidates, ...found.filter(candidate => !seen.has(`${candidate.filePath}:${candidate.line}`))]
+                    .sort((a, b) => b.score - a.score);
+            }
+            continue;
+        }
+
+        let target: { filePath: string; line: number } | undefined = picked.candidate;
+        if (picked.action === 'manual' && source) {
+            const input = await vscode.window.showInputBox({
+                prompt: `输入 ${path.basename(filePath)} 中的行号（1-${source.lineCount}）`,
+                value: String(comment.line + 1),
+                validateInput: value => {
+                    const line = Number(value);
+                    return Number.isInteger(line) && line >= 1 && line <= source.lineCount ? undefined : `请输入 1-${source.lineCount} 之间的行号`;
+                }
+            });
+            if (input === undefined) {
+                continue;
+            }
+            target = { filePath, line: Number(input) - 1 };
+        }
+
+        if (target && await commentManager.reanchorComment(filePath, comment.id, target.filePath, target.line)) {
+            return 'reanchored';
+        }
+        vscode.window.showWarningMessage('无法将注释定位到所选位置');
+    }
+}
+
+/**
+ * 显示候选列表，活动项变化时更新并排预览
+ */
+function pickWithPreview<T extends vscode.QuickPickItem & { candidate?: CandidateLocation }>(
+    preview: SnapshotPreviewProvider,
+    comment: LocalComment,
+    filePath: string,
+    items: T[],
+    options: { title: string; placeHolder: string }
+): Promise<T | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<T>();
+        quickPick.title = options.title;
+        quickPick.placeholder = options.placeHolder;
+        quickPick.items = items;
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        let resolved = false;
+        quickPick.onDidChangeActive(active => {
+            const candidate = active[0]?.candidate;
+            if (candidate) {
+                showPreview(preview, comment, filePath, candidate);
+            }
+        });
+        quickPick.onDidAccept(() => {
+            resolved = true;
+            resolve(quickPick.selectedItems[0]);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!resolved) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * 左侧为保存的快照（上下文 + 锚定代码），右侧为候选位置同样范围内的当前代码
+ */
+async function showPreview(preview: SnapshotPreviewProvider, comment: LocalComment, filePath: string, candidate: CandidateLocation): Promise<void> {
+    const source = readFileSource(candidate.filePath);
+    if (!source) {
+        return;
+    }
+
+    const before = [...(comment.contextBefore || [])].reverse();
+    const anchor = comment.rangeContent && comment.rangeContent.length > 0 ? comment.rangeContent : [comment.lineContent];
+    const after = comment.contextAfter || [];
+
+    const current: string[] = [];
+    const firstLine = candidate.line - before.length;
+    const lastLine = candidate.line + anchor.length - 1 + after.length;
+    for (let line = firstLine; line <= lastLine; line++) {
+        current.push(line >= 0 && line < source.lineCount ? source.lineAt(line).text.trim() : '');
+    }
+
+    // 保留文件扩展名，预览时使用相同的语法高亮
+    const extension = path.extname(filePath);
+    const snapshotUri = vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: `/保存的快照${extension}` });
+    const candidateUri = vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: `/候选位置${extension}` });
+    preview.setContent(snapshotUri, [...before, ...anchor, ...after].join('\n'));
+    preview.setContent(candidateUri, current.join('\n'));
+
+    const title = `保存的快照 ↔ ${path.basename(candidate.filePath)} 第 ${candidate.line + 1} 行`;
+    await vscode.commands.executeCommand('vscode.diff', snapshotUri, candidateUri, title, { preview: true, preserveFocus: true });
+}
+
+/**
+ * 在工作区的所有文件中查找候选位置
+ */
+async function searchWorkspace(commentManager: CommentManager, comment: LocalComment): Promise<CandidateLocation[] | undefined> {
+    const keywords = getSearchKeywords(comment);
+
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: '正在工作区中查找候选位置',
+        cancellable: true
+    }, async (progress, token) => {
+        const uris = await findWorkspaceFiles(token);
+        const found: CandidateLocation[] = [];
+
+        for (const [index, uri] of uris.entries()) {
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            if (index % 100 === 0) {
+                progress.report({ message: `${index}/${uris.length}`, increment: 100 * 100 / uris.length });
+                // 让出事件循环，保持界面响应
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+
+            const source = readFileSource(uri.fsPath, keywords);
+            if (!source) {
+                continue;
+            }
+            for (const candidate of commentManager.rankAnchorCandidates(comment, source, 5)) {
+                found.push({ ...candidate, filePath: uri.fsPath });
+            }
+        }
+
+        return found.sort((a, b) => b.score - a.score).slice(0, 20);
+    });
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { CommentManager, LocalComment } from '../commentManager';
+import { TagParseChange, findTagParseChanges } from '../core/tagParser';
+
+// 工作区状态中记录是否已经检查过，只在升级后第一次激活时自动提示；标签名规则再次变化时更换键名
+const CHECKED_STATE_KEY = 'localComment.tagNameRulesChecked';
+
+interface TagMigrationIssue {
+    filePath: string;
+    comment: LocalComment;
+    content: string; // 发生变化的注释或回复内容
+    isReply: boolean;
+    change: TagParseChange;
+}
+
+/**
+ * 找出支持 Unicode 和多级标签名后解析结果发生变化的标签（包括已归档注释和回复）
+ */
+function findTagMigrationIssues(commentManager: CommentManager): TagMigrationIssue[] {
+    const issues: TagMigrationIssue[] = [];
+    for (const section of [commentManager.getAllComments(), commentManager.getArchivedComments()]) {
+        for (const [filePath, comments] of Object.entries(section)) {
+            for (const comment of comments) {
+                const contents = [comment.content, ...(comment.replies || []).map(reply => reply.content)];
+                contents.forEach((content, index) => {
+                    for (const change of findTagParseChanges(content)) {
+                        issues.push({ filePath, comment, content, isReply: index > 0, change });
+                    }
+                });
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * 升级后首次激活时检查一次，有受影响的标签才提示
+ */
+export async function checkTagMigrationOnce(context: vscode.ExtensionContext, commentManager: CommentManager): Promise<void> {
+    if (context.workspaceState.get<boolean>(CHECKED_STATE_KEY)) {
+        return;
+    }
+    await context.workspaceState.update(CHECKED_STATE_KEY, true);
+
+    const issues = findTagMigrationIssues(commentManager);
+    if (issues.length === 0) {
+        return;
+    }
+    console.log(`⚠️ ${issues.length} 个标签在标签名规则更新后解析结果发生变化`);
+    const choice = await vscode.window.showWarningMessage(
+        `标签名现在支持中文等 Unicode 字符和 auth.session 形式的多级标签，已有注释中有 ${issues.length} 个标签的解析结果发生了变化`,
+        '查看详情'
+    );
+    if (choice === '查看详情') {
+        await showTagMigrationReport(commentManager);
+    }
+}
+
+/**
+ * 以 Markdown 文档列出解析结果发生变化的标签
+ */
+export async function showTagMigrationReport(commentManager: CommentManager): Promise<void> {
+    const issues = findTagMigrationIssues(commentManager);
+    if (issues.length === 0) {
+        vscode.window.showInformationMessage('没有受标签名规则变化影响的标签');
+        return;
+    }
+
+    const lines: string[] = [
+        '# 受标签名规则变化影响的标签',
+        '',
+        '标签名现在可以包含中文等任意语言的字母和数字，并且可以用 `.` 或 `/` 分隔为多级标签。以下标签按旧规则（只识别英文字母、数字和下划线）与新规则解析的结果不同：',
+        '',
+        '- 以前不被识别的标签现在会注册为标签，如果不是有意为之，可以去掉前面的 `$` 或 `@`',
+        '- 紧跟在标签后面的文字现在会被当作标签名的一部分，例如 `@session的说明` 现在引用的是 `session的说明`。如果要保持原来的标签，在标签名之后加一个空格或标点',
+        '- 标签后面紧跟 `.` 或 `/` 和文字时现在是多级标签，例如 `@auth.session` 现在引用的是 `auth.session` 而不是 `auth`，`@auth.*` 引用 `auth` 的所有子标签',
+        '',
+        '| 文件 | 行 | 类型 | 以前 | 现在 | 所在内容 |',
+        '| --- | --- | --- | --- | --- | --- |'
+    ];
+    for (const issue of issues) {
+        const prefix = issue.change.kind === 'declaration' ? '$' : '@';
+        lines.push([
+            '',
+            tableCell(vscode.workspace.asRelativePath(issue.filePath)),
+            String(issue.comment.line + 1),
+            `${issue.change.kind === 'declaration' ? '声明' : '引用'}${issue.isReply ? '（回复）' : ''}`,
+            issue.change.previous !== undefined ? tableCell(prefix + issue.change.previous) : '不识别',
+            tableCell(prefix + issue.change.current),
+            tableCell(excerpt(issue.content, issue.change.start)),
+            ''
+        ].join(' | ').trim());
+    }
+    lines.push('');
+
+    const document = await vscode.workspace.openTextDocument({ content: lines.join('\n'), language: 'markdown' });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * 标签前后各截取一段，便于在长注释中找到位置
+ */
+function excerpt(content: string, start: number): string {
+    const from = Math.max(0, start - 10);
+    const text = content.substring(from, start + 30).replace(/\s+/g, ' ');
+    return `${from > 0 ? '…' : ''}${text}${start + 30 < content.length ? '…' : ''}`;
+}
+
+function tableCell(text: string): string {
+    return `\`${text.replace(/\|/g, '\\|').replace(/`/g, '\'')}\``;
+}
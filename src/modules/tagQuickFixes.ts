@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TagHealth } from '../tagHealth';
+import { TagProblemItem } from '../providers/tagProblemsProvider';
+import { formatTagName } from '../core/tagParser';
+
+/**
+ * 重命名问题节点涉及的所有标签，或单个声明、引用
+ * @returns 是否修改了注释
+ */
+export async function renameTagFromProblem(tagHealth: TagHealth, item: TagProblemItem): Promise<boolean> {
+    if (!item.problem) {
+        return false;
+    }
+    const sites = item.site ? [item.site] : item.problem.sites;
+    const { tagName } = item.problem;
+    const isReference = sites.every(site => site.kind === 'reference');
+
+    const newName = isReference
+        ? await pickReferenceTarget(tagHealth, tagName)
+        : await vscode.window.showInputBox({
+            title: `重命名标签 $${tagName}`,
+            prompt: '只修改这里的声明，引用该标签的注释不会随之修改',
+            value: tagName,
+            validateInput: value => tagHealth.validateNewName(value, tagName, true)
+        });
+    if (newName === undefined || newName === tagName) {
+        return false;
+    }
+
+    return reportResult(await tagHealth.renameTag(sites, newName), `已将 ${sites.length} 处标签改为 ${isReference ? '@' : '$'}${newName}`);
+}
+
+/**
+ * 合并重复声明：保留选中的声明（从声明节点执行时保留该声明），其余声明改为引用
+ */
+export async function mergeTagDeclarations(tagHealth: TagHealth, item: TagProblemItem): Promise<boolean> {
+    if (!item.problem || item.problem.kind !== 'duplicateDeclaration') {
+        return false;
+    }
+    const { tagName, sites } = item.problem;
+    const picked = item.site ? { site: item.site } : await vscode.window.showQuickPick(
+        sites.map(site => ({
+            label: `${path.basename(site.filePath)}:${site.line + 1}`,
+            description: vscode.workspace.asRelativePath(site.filePath),
+            detail: (tagHealth.getSiteContent(site) || '').split('\n')[0],
+            site
+        })),
+        {
+            title: `合并标签 $${tagName} 的重复声明`,
+            placeHolder: '选择要保留的声明，其余声明将改为对它的引用'
+        }
+    );
+    if (!picked) {
+        return false;
+    }
+
+    return reportResult(await tagHealth.mergeDeclarations(sites, picked.site), `已合并标签 $${tagName} 的 ${sites.length} 处声明`);
+}
+
+/**
+ * 去掉标签的 $ 或 @，注释中保留原来的文字
+ */
+export async function removeTagFromProblem(tagHealth: TagHealth, item: TagProblemItem): Promise<boolean> {
+    if (!item.problem) {
+        return false;
+    }
+    const sites = item.site ? [item.site] : item.problem.sites;
+    const tagText = `${sites[0]?.kind === 'reference' ? '@' : '$'}${formatTagName({ name: item.problem.tagName, wildcard: item.problem.wildcard })}`;
+    const confirm = await vscode.window.showWarningMessage(
+        `确定要移除 ${sites.length} 处 ${tagText} 吗？注释中会保留标签名文字`,
+        { modal: true },
+        '移除'
+    );
+    if (confirm !== '移除') {
+        return false;
+    }
+
+    return reportResult(await tagHealth.removeTag(sites), `已移除 ${sites.length} 处 ${tagText}`);
+}
+
+/**
+ * 未声明的引用优先改为名称相近的已声明标签，也可以输入新名称
+ */
+async function pickReferenceTarget(tagHealth: TagHealth, tagName: string): Promise<string | undefined> {
+    const suggestions = tagHealth.suggestDeclaredTags(tagName);
+    const enterName = { label: '$(edit) 输入标签名...', tagName: undefined as string | undefined };
+    const picked = suggestions.length === 0 ? enterName : await vscode.window.showQuickPick(
+        [
+            ...suggestions.map(suggestion => ({ label: `@${suggestion}`, description: '已声明的相近标签', tagName: suggestion as string | undefined })),
+            enterName
+        ],
+        { title: `修改未声明的标签引用 @${tagName}`, placeHolder: '选择要改为引用的标签' }
+    );
+    if (!picked) {
+        return undefined;
+    }
+    return picked.tagName ?? vscode.window.showInputBox({
+        title: `修改未声明的标签引用 @${tagName}`,
+        value: tagName,
+        validateInput: value => tagHealth.validateNewName(value, tagName, false)
+    });
+}
+
+function reportResult(changed: number | undefined, message: string): boolean {
+    if (changed === undefined) {
+        vscode.window.showWarningMessage('部分注释已被修改或删除，请刷新标签问题后重试');
+        return false;
+    }
+    vscode.window.showInformationMessage(message);
+    return changed > 0;
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TagContentChange, TagHealth } from '../tagHealth';
+
+// 最近一次标签重命名，用于撤销
+let lastRename: { oldName: string; newName: string; changes: TagContentChange[] } | undefined;
+
+/**
+ * 在整个项目中重命名标签：预览所有受影响的注释，确认后一次性修改声明与引用
+ * @returns 是否修改了注释
+ */
+export async function renameTagEverywhere(tagHealth: TagHealth, oldName: string, newName?: string): Promise<boolean> {
+    const sites = tagHealth.getTagSites(oldName);
+    if (sites.length === 0) {
+        vscode.window.showWarningMessage(`没有注释使用标签 ${oldName}`);
+        return false;
+    }
+
+    const isDeclared = tagHealth.isDeclared(oldName);
+    if (newName === undefined) {
+        newName = await vscode.window.showInputBox({
+            title: `重命名标签 ${isDeclared ? '$' : '@'}${oldName}`,
+            prompt: '声明和所有引用都会改为新名称',
+            value: oldName,
+            validateInput: value => tagHealth.validateNewName(value, oldName, isDeclared)
+        });
+    }
+    if (newName === undefined || newName === oldName) {
+        return false;
+    }
+    const error = tagHealth.validateNewName(newName, oldName, isDeclared);
+    if (error) {
+        vscode.window.showWarningMessage(error);
+        return false;
+    }
+
+    const changes = tagHealth.planRename(sites, newName);
+    if (!changes || changes.length === 0) {
+        vscode.window.showWarningMessage('部分注释已被修改或删除，请重试');
+        return false;
+    }
+
+    // 预览：默认全部勾选，取消勾选的注释保持不变
+    const picked = await vscode.window.showQuickPick(
+        changes.map(change => ({
+            label: `${path.basename(change.filePath)}:${change.line + 1}`,
+            description: `${vscode.workspace.asRelativePath(change.filePath)}${change.replyId ? ' · 回复' : ''}`,
+            detail: change.content.split('\n')[0],
+            picked: true,
+            change
+        })),
+        {
+            title: `将 ${isDeclared ? '$' : '@'}${oldName} 重命名为 ${newName}（${changes.length} 条注释）`,
+            placeHolder: '取消勾选不需要修改的注释，按 Enter 确认',
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true
+        }
+    );
+    if (!picked || picked.length === 0) {
+        return false;
+    }
+
+    const applied = picked.map(item => item.change);
+    const changed = await tagHealth.applyChanges(applied);
+    if (changed === undefined) {
+        vscode.window.showWarningMessage('部分注释已被修改或删除，标签没有重命名，请重试');
+        return false;
+    }
+    lastRename = { oldName, newName, changes: applied };
+
+    // 撤销在通知中完成，也可以之后执行"撤销标签重命名"命令
+    vscode.window.showInformationMessage(`已在 ${changed} 条注释中将 ${oldName} 重命名为 ${newName}`, '撤销').then(choice => {
+        if (choice === '撤销') {
+            vscode.commands.executeCommand('localComment.undoTagRename');
+        }
+    });
+    return changed > 0;
+}
+
+/**
+ * 撤销最近一次标签重命名，之后又被编辑过的注释保持不变
+ * @returns 是否修改了注释
+ */
+export async function undoLastTagRename(tagHealth: TagHealth): Promise<boolean> {
+    if (!lastRename) {
+        vscode.window.showInformationMessage('没有可以撤销的标签重命名');
+        return false;
+    }
+    const { oldName, newName, changes } = lastRename;
+    lastRename = undefined;
+
+    const { reverted, skipped } = await tagHealth.revertChanges(changes);
+    vscode.window.showInformationMessage(
+        `已撤销标签重命名 ${oldName} → ${newName}` + (skipped > 0 ? `，${skipped} 条注释在重命名后又被修改过，保持不变` : '')
+    );
+    return reverted > 0;
+}
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { TagManager } from '../tagManager';
-import { CommentManager } from '../commentManager';
+import { TAG_NAME_PATTERN, TAG_PREFIX_PATTERN } from '../core/tagParser';
 
 export async function showWebViewInput(
     context: vscode.ExtensionContext,
@@ -15,7 +15,7 @@ export async function showWebViewInput(
         lineContent?: string;
         selectedText?: string;
     },
-    markedJsUri: string = ''
+    tagManager?: TagManager
 ): Promise<string | undefined> {
     // 保存当前活动编辑器的引用，以便稍后恢复焦点
     const activeEditor = vscode.window.activeTextEditor;
@@ -37,11 +37,8 @@ export async function showWebViewInput(
         const markedJsPath = vscode.Uri.joinPath(context.extensionUri, 'src', 'lib', 'marked.min.js');
         const markedJsUri = panel.webview.asWebviewUri(markedJsPath);
 
-        // 获取标签建议
-        const commentManager = new CommentManager(context);
-        const tagManager = new TagManager();
-        tagManager.updateTags(commentManager.getAllComments());
-        const tagSuggestions = tagManager.getAvailableTagNames().map(tag => `@${tag}`).join(',');
+        // 获取标签建议，使用扩展共享的 TagManager，避免再创建一个读写同一存储文件的 CommentManager
+        const tagSuggestions = (tagManager ? tagManager.getAvailableTagNames() : []).map(tag => `@${tag}`).join(',');
 
         // HTML内容
         panel.webview.html = getWebviewContent(context, prompt, placeholder, existingContent, contextInfo, markedJsUri.toString(), tagSuggestions);
@@ -156,7 +153,9 @@ function getWebviewContent(
         escapedPlaceholder: escapeHtml(placeholder),
         escapedContent: escapeHtml(existingContent || ''),
         markedJsUri: markedJsUri || '',
-        tagSuggestions: tagSuggestions
+        tagSuggestions: tagSuggestions,
+        tagNamePattern: TAG_NAME_PATTERN,
+        tagPrefixPattern: TAG_PREFIX_PATTERN
     };
 
     // 读取模板文件
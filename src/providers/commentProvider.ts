@@ -1,15 +1,28 @@
 import * as vscode from 'vscode';
 import { CommentManager, LocalComment } from '../commentManager';
+import { CommentThreadProvider } from './commentThreadProvider';
+import {
+    STATUSES, STATUS_LABELS, PRIORITY_LABELS,
+    getStatus, getStatusAppearance, getPriorityAppearance, getCategoryAppearance, getCommentPrefix, getCommentColor
+} from '../commentAppearance';
+import { TagKind, parseTags } from '../core/tagParser';
 
 export class CommentProvider implements vscode.Disposable {
     private decorationType: vscode.TextEditorDecorationType;
     private tagDecorationType: vscode.TextEditorDecorationType;
+    private rangeHighlightDecorationType: vscode.TextEditorDecorationType; // 从注释树选中注释时高亮其代码范围
+    private highlightedRange: { editor: vscode.TextEditor; range: vscode.Range } | undefined;
     private commentManager: CommentManager;
+    private threadProvider: CommentThreadProvider; // commentsApi 显示模式下使用的原生评论线程
     private isVisible: boolean = true;
+    private updateTimer: NodeJS.Timeout | undefined; // 合并连续触发的刷新
     private disposables: vscode.Disposable[] = [];
 
-    constructor(commentManager: CommentManager) {
+    private static readonly UPDATE_DELAY = 30;
+
+    constructor(commentManager: CommentManager, threadProvider: CommentThreadProvider) {
         this.commentManager = commentManager;
+        this.threadProvider = threadProvider;
         
         // 创建装饰类型用于显示注释
         this.decorationType = vscode.window.createTextEditorDecorationType({
@@ -24,17 +37,53 @@ export class CommentProvider implements vscode.Disposable {
         // 标签装饰器现在不再使用，但保留以避免错误
         this.tagDecorationType = vscode.window.createTextEditorDecorationType({});
 
+        this.rangeHighlightDecorationType = vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+            isWholeLine: false
+        });
+
         // 监听编辑器变化
         this.disposables.push(
-            vscode.window.onDidChangeActiveTextEditor(() => this.updateDecorations()),
-            vscode.window.onDidChangeTextEditorSelection(() => this.updateDecorations())
+            vscode.window.onDidChangeActiveTextEditor(() => {
+                this.clearRangeHighlight();
+                this.updateDecorations();
+            }),
+            vscode.window.onDidChangeTextEditorSelection((event) => {
+                // 光标离开高亮的范围后取消高亮
+                if (this.highlightedRange && event.textEditor === this.highlightedRange.editor &&
+                    !this.highlightedRange.range.contains(event.selections[0].active)) {
+                    this.clearRangeHighlight();
+                }
+                this.scheduleUpdate();
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.scheduleUpdate()),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('localComment.displayMode') || event.affectsConfiguration('localComment.appearance') ||
+                    event.affectsConfiguration('localComment.matching')) {
+                    this.clearDecorations();
+                    this.updateDecorations();
+                }
+            })
         );
 
         this.updateDecorations();
     }
 
     public refresh(): void {
-        this.updateDecorations();
+        this.scheduleUpdate();
+    }
+
+    /**
+     * 输入、移动光标等连续触发的刷新合并为一次
+     */
+    private scheduleUpdate(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.updateDecorations();
+        }, CommentProvider.UPDATE_DELAY);
     }
 
     public toggleVisibility(): void {
@@ -44,15 +93,29 @@ export class CommentProvider implements vscode.Disposable {
             vscode.window.showInformationMessage('本地注释已显示');
         } else {
             this.clearDecorations();
+            this.threadProvider.setEnabled(false);
             vscode.window.showInformationMessage('本地注释已隐藏');
         }
     }
 
+    /**
+     * 注释的显示方式：decoration 为行尾文字加悬停提示，commentsApi 为 VS Code 原生评论线程
+     */
+    private isCommentsApiMode(): boolean {
+        return vscode.workspace.getConfiguration('localComment').get<string>('displayMode', 'decoration') === 'commentsApi';
+    }
+
     private updateDecorations(): void {
         if (!this.isVisible) {
             return;
         }
 
+        this.threadProvider.setEnabled(this.isCommentsApiMode());
+        if (this.threadProvider.isEnabled()) {
+            this.threadProvider.refresh();
+            return;
+        }
+
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
             return;
@@ -63,13 +126,19 @@ export class CommentProvider implements vscode.Disposable {
         const normalDecorations: vscode.DecorationOptions[] = [];
         const tagDecorations: vscode.DecorationOptions[] = [];
 
+        // 同一行的多条注释合并为一个装饰，显示第一条注释并附带数量标记
+        const commentsByLine = new Map<number, LocalComment[]>();
         for (const comment of comments) {
+            commentsByLine.set(comment.line, [...(commentsByLine.get(comment.line) || []), comment]);
+        }
+
+        for (const [lineNumber, lineComments] of commentsByLine) {
             // 确保行号在有效范围内
-            if (comment.line >= 0 && comment.line < editor.document.lineCount) {
-                const line = editor.document.lineAt(comment.line);
+            if (lineNumber >= 0 && lineNumber < editor.document.lineCount) {
+                const line = editor.document.lineAt(lineNumber);
                 
                 // 创建分段装饰
-                const decorations = this.createSegmentedDecorations(comment, line, editor);
+                const decorations = this.createSegmentedDecorations(lineComments, line, editor);
                 normalDecorations.push(...decorations.normal);
                 tagDecorations.push(...decorations.tags);
             }
@@ -79,19 +148,23 @@ export class CommentProvider implements vscode.Disposable {
         editor.setDecorations(this.tagDecorationType, tagDecorations);
     }
 
-    private createSegmentedDecorations(comment: LocalComment, line: vscode.TextLine, editor: vscode.TextEditor): {normal: vscode.DecorationOptions[], tags: vscode.DecorationOptions[]} {
+    private createSegmentedDecorations(lineComments: LocalComment[], line: vscode.TextLine, editor: vscode.TextEditor): {normal: vscode.DecorationOptions[], tags: vscode.DecorationOptions[]} {
         const normal: vscode.DecorationOptions[] = [];
         const tags: vscode.DecorationOptions[] = [];
         const lineLength = line.text.length;
+        const comment = lineComments[0];
+        const badge = lineComments.length > 1 ? `[${lineComments.length}] ` : '';
         
-        // 🎯 精确模式：所有注释都使用普通样式，不进行特殊高亮
+        // 文字颜色取自分类、优先级或状态，已完成的注释加删除线，与未完成的区分开
+        const status = getStatus(comment);
         const decoration: vscode.DecorationOptions = {
-            range: new vscode.Range(comment.line, lineLength, comment.line, lineLength),
+            range: new vscode.Range(line.lineNumber, lineLength, line.lineNumber, lineLength),
             renderOptions: {
                 after: {
-                    contentText: ` 💬 ${comment.content}`,
-                    color: '#888888',
+                    contentText: ` ${getCommentPrefix(comment)} ${badge}${comment.content}`,
+                    color: getCommentColor(comment),
                     fontStyle: 'italic',
+                    textDecoration: status === 'done' ? 'line-through' : undefined,
                     margin: '0 0 0 1em'
                 }
             }
@@ -107,26 +180,23 @@ export class CommentProvider implements vscode.Disposable {
         const segments: Array<{text: string, isTag: boolean}> = [];
         let lastIndex = 0;
         
-        // 匹配所有标签（声明和引用）
-        const tagRegex = /(\$[a-zA-Z_][a-zA-Z0-9_]*)|(@[a-zA-Z_][a-zA-Z0-9_]*)/g;
-        let match;
-        
-        while ((match = tagRegex.exec(content)) !== null) {
+        // 所有标签（声明和引用）
+        for (const tag of parseTags(content)) {
             // 添加标签前的普通文本
-            if (match.index > lastIndex) {
+            if (tag.start > lastIndex) {
                 segments.push({
-                    text: content.substring(lastIndex, match.index),
+                    text: content.substring(lastIndex, tag.start),
                     isTag: false
                 });
             }
             
             // 添加标签
             segments.push({
-                text: match[0],
+                text: tag.text,
                 isTag: true
             });
             
-            lastIndex = match.index + match[0].length;
+            lastIndex = tag.end;
         }
         
         // 添加剩余的普通文本
@@ -148,21 +218,39 @@ export class CommentProvider implements vscode.Disposable {
         return segments;
     }
 
-    private extractTagsFromContent(content: string): Array<{text: string, type: 'declaration' | 'reference'}> {
-        const tags: Array<{text: string, type: 'declaration' | 'reference'}> = [];
-        
-        // 匹配所有标签（声明和引用）
-        const tagRegex = /(\$[a-zA-Z_][a-zA-Z0-9_]*)|(@[a-zA-Z_][a-zA-Z0-9_]*)/g;
-        let match;
-        
-        while ((match = tagRegex.exec(content)) !== null) {
-            tags.push({
-                text: match[0],
-                type: match[0].startsWith('$') ? 'declaration' : 'reference'
-            });
+    private extractTagsFromContent(content: string): Array<{text: string, type: TagKind}> {
+        return parseTags(content).map(tag => ({ text: tag.text, type: tag.kind }));
+    }
+
+    /**
+     * 高亮注释覆盖的代码范围，直到光标离开该范围或切换编辑器
+     */
+    public highlightCommentRange(editor: vscode.TextEditor, comment: LocalComment): void {
+        const range = this.getCommentRange(editor.document, comment);
+        this.clearRangeHighlight();
+        editor.setDecorations(this.rangeHighlightDecorationType, [range]);
+        this.highlightedRange = { editor, range };
+    }
+
+    /**
+     * 获取注释在文档中覆盖的范围：范围注释为保存的范围，单行注释为整行
+     */
+    public getCommentRange(document: vscode.TextDocument, comment: LocalComment): vscode.Range {
+        if (comment.range) {
+            // 范围随注释整体移动后，列号可能超出当前行长度，交给 validateRange 修正
+            return document.validateRange(new vscode.Range(
+                comment.range.startLine, comment.range.startCharacter,
+                comment.range.endLine, comment.range.endCharacter
+            ));
+        }
+        return document.lineAt(comment.line).range;
+    }
+
+    private clearRangeHighlight(): void {
+        if (this.highlightedRange) {
+            this.highlightedRange.editor.setDecorations(this.rangeHighlightDecorationType, []);
+            this.highlightedRange = undefined;
         }
-        
-        return tags;
     }
 
     private clearDecorations(): void {
@@ -174,8 +262,12 @@ export class CommentProvider implements vscode.Disposable {
     }
 
     public dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
         this.decorationType.dispose();
         this.tagDecorationType.dispose();
+        this.rangeHighlightDecorationType.dispose();
         this.disposables.forEach(d => d.dispose());
     }
 
@@ -190,97 +282,161 @@ export class CommentProvider implements vscode.Disposable {
     }
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.ProviderResult<vscode.Hover> {
-        if (!this.isVisible) {
+        // 评论线程模式下注释直接显示在线程中，不再提供悬停提示
+        if (!this.isVisible || this.threadProvider.isEnabled()) {
             return;
         }
 
         const line = position.line;
         const comments = this.commentManager.getComments(document.uri);
-        const comment = comments.find(c => c.line === line);
+        // 先找锚定在该行的注释，再找覆盖该行的范围注释；同一行的多条注释一起显示
+        let lineComments = comments.filter(c => c.line === line);
+        if (lineComments.length === 0) {
+            lineComments = comments.filter(c => c.range && c.range.startLine <= line && c.range.endLine >= line);
+        }
 
-        if (comment) {
-            const markdownContent = new vscode.MarkdownString();
-            markdownContent.isTrusted = true;
-            markdownContent.supportHtml = true;
-            
-            // 🔥 处理用户输入的转义字符
-            const processedContent = this.processMarkdownContent(comment.content);
-            
-            // 构建Markdown内容
-            markdownContent.appendMarkdown(`**💬 本地注释**\n\n`);
-            
-            // 将注释内容中的@标签转换为可点击的链接
-            const segments = this.parseCommentIntoSegments(processedContent);
-            let enhancedContent = '';
+        if (lineComments.length === 0) {
+            return undefined;
+        }
+
+        const markdownContent = new vscode.MarkdownString();
+        markdownContent.isTrusted = true;
+        markdownContent.supportHtml = true;
+
+        lineComments.forEach((comment, index) => {
+            if (index > 0) {
+                markdownContent.appendMarkdown(`\n\n---\n\n`);
+            }
+            this.appendCommentToHover(markdownContent, document, comment);
+        });
+
+        // 悬停时编辑器会高亮 Hover 的范围，范围注释因此能显示出覆盖的整段代码
+        const rangeComment = lineComments.find(c => c.range);
+        return new vscode.Hover(markdownContent, rangeComment ? this.getCommentRange(document, rangeComment) : undefined);
+    }
+
+    /**
+     * 在悬停提示中追加一条注释及其回复
+     */
+    private appendCommentToHover(markdownContent: vscode.MarkdownString, document: vscode.TextDocument, comment: LocalComment): void {
+        // 🔥 处理用户输入的转义字符
+        const processedContent = this.processMarkdownContent(comment.content);
+        
+        // 构建Markdown内容
+        const status = getStatus(comment);
+        const statusAppearance = getStatusAppearance(status);
+        let title = `**${statusAppearance.icon} 本地注释 · ${STATUS_LABELS[status]}**`;
+        if (comment.priority) {
+            title += ` ${getPriorityAppearance(comment.priority).icon} ${PRIORITY_LABELS[comment.priority]}优先级`;
+        }
+        if (comment.category) {
+            title += ` ${getCategoryAppearance(comment.category).icon || '🏷️'} ${comment.category}`;
+        }
+        markdownContent.appendMarkdown(`${title}\n\n`);
+        if (comment.range && comment.range.endLine > comment.range.startLine) {
+            markdownContent.appendMarkdown(`*第 ${comment.range.startLine + 1}-${comment.range.endLine + 1} 行*\n\n`);
+        }
+        
+        markdownContent.appendMarkdown(this.linkTagReferences(processedContent));
+        markdownContent.appendMarkdown(`\n\n`);
+        
+        // 添加标签信息部分（保留原有功能作为备用）并进行去重
+        const tags = this.extractTagsFromContent(comment.content);
+        if (tags.length > 0) {
+            // 使用Set进行去重
+            const declarationTags = new Set<string>();
+            const referenceTags = new Set<string>();
             
-            for (const segment of segments) {
-                if (segment.isTag && segment.text.startsWith('@')) {
-                    // 提取标签名（去掉@符号）
-                    const tagName = segment.text.substring(1);
-                    // 创建可点击链接
-                    enhancedContent += `[${segment.text}](command:localComment.goToTagDeclaration?${encodeURIComponent(JSON.stringify({tagName}))})`;
+            // 收集唯一标签
+            for (const tag of tags) {
+                if (tag.type === 'declaration') {
+                    declarationTags.add(tag.text);
                 } else {
-                    // 普通文本直接添加
-                    enhancedContent += segment.text;
+                    referenceTags.add(tag.text);
                 }
             }
             
-            markdownContent.appendMarkdown(enhancedContent);
-            markdownContent.appendMarkdown(`\n\n`);
+            markdownContent.appendMarkdown(`**🏷️ 标签信息**\n\n`);
             
-            // 添加标签信息部分（保留原有功能作为备用）并进行去重
-            const tags = this.extractTagsFromContent(comment.content);
-            if (tags.length > 0) {
-                // 使用Set进行去重
-                const declarationTags = new Set<string>();
-                const referenceTags = new Set<string>();
-                
-                // 收集唯一标签
-                for (const tag of tags) {
-                    if (tag.type === 'declaration') {
-                        declarationTags.add(tag.text);
-                    } else {
-                        referenceTags.add(tag.text);
-                    }
-                }
-                
-                markdownContent.appendMarkdown(`**🏷️ 标签信息**\n\n`);
-                
-                // 处理声明标签
-                for (const tagText of declarationTags) {
-                    markdownContent.appendMarkdown(`🏷️ **声明**: \`${tagText}\`\n\n`);
-                }
-                
-                // 处理引用标签
-                for (const tagText of referenceTags) {
-                    const tagName = tagText.substring(1);
-                    markdownContent.appendMarkdown(`🔗 **引用**: \`${tagText}\` - [跳转到声明](command:localComment.goToTagDeclaration?${encodeURIComponent(JSON.stringify({tagName}))})\n\n`);
-                }
+            // 处理声明标签
+            for (const tagText of declarationTags) {
+                markdownContent.appendMarkdown(`🏷️ **声明**: \`${tagText}\`\n\n`);
             }
             
-            markdownContent.appendMarkdown(`---\n`);
-            markdownContent.appendMarkdown(`📅 *${new Date(comment.timestamp).toLocaleString()}*\n\n`);
-            
-            // 添加操作按钮
-            const editArgs = JSON.stringify({
+            // 处理引用标签
+            for (const tagText of referenceTags) {
+                const tagName = tagText.substring(1);
+                markdownContent.appendMarkdown(`🔗 **引用**: \`${tagText}\` - [跳转到声明](command:localComment.goToTagDeclaration?${encodeURIComponent(JSON.stringify({tagName}))})\n\n`);
+            }
+        }
+        
+        markdownContent.appendMarkdown(`📅 *${new Date(comment.timestamp).toLocaleString()}*\n\n`);
+
+        // 回复以引用块的形式跟在注释后面，形成对话
+        for (const reply of comment.replies || []) {
+            const removeReplyArgs = JSON.stringify({
                 uri: document.uri.toString(),
                 commentId: comment.id,
-                line: comment.line
+                replyId: reply.id
             });
-            
-            const removeArgs = JSON.stringify({
-                uri: document.uri.toString(),
-                commentId: comment.id,
-                line: comment.line
+            const replyContent = this.linkTagReferences(this.processMarkdownContent(reply.content))
+                .split('\n')
+                .map(replyLine => `> ${replyLine}`)
+                .join('\n');
+            markdownContent.appendMarkdown(`${replyContent}\n>\n`);
+            markdownContent.appendMarkdown(`> ↩️ *${new Date(reply.timestamp).toLocaleString()}* ` +
+                `[🗑️](command:localComment.removeReplyFromHover?${encodeURIComponent(removeReplyArgs)} "删除回复")\n\n`);
+        }
+        
+        // 添加操作按钮
+        const editArgs = JSON.stringify({
+            uri: document.uri.toString(),
+            commentId: comment.id,
+            line: comment.line
+        });
+        
+        const removeArgs = JSON.stringify({
+            uri: document.uri.toString(),
+            commentId: comment.id,
+            line: comment.line
+        });
+
+        // 切换状态的链接，当前状态不显示
+        const statusLinks = STATUSES
+            .filter(value => value !== status)
+            .map(value => {
+                const statusArgs = JSON.stringify({ uri: document.uri.toString(), commentId: comment.id, status: value });
+                return `[${getStatusAppearance(value).icon} ${STATUS_LABELS[value]}](command:localComment.setStatus?${encodeURIComponent(statusArgs)} "标记为${STATUS_LABELS[value]}")`;
             });
+        markdownContent.appendMarkdown(`标记为: ${statusLinks.join(' | ')} | ` +
+            `[优先级](command:localComment.setPriority?${encodeURIComponent(editArgs)} "设置优先级") | ` +
+            `[分类](command:localComment.setCategory?${encodeURIComponent(editArgs)} "设置分类")\n\n`);
 
-            markdownContent.appendMarkdown(`[✏️ 编辑](command:localComment.quickEditCommentFromHover?${encodeURIComponent(editArgs)} "快速编辑注释") | `);
-            markdownContent.appendMarkdown(`[📝 Markdown编辑](command:localComment.editCommentFromHover?${encodeURIComponent(editArgs)} "多行编辑注释") | `);
-            markdownContent.appendMarkdown(`[🗑️ 删除](command:localComment.removeCommentFromHover?${encodeURIComponent(removeArgs)} "删除注释")`);
-            
-            return new vscode.Hover(markdownContent);
-        }
+        markdownContent.appendMarkdown(`[✏️ 编辑](command:localComment.quickEditCommentFromHover?${encodeURIComponent(editArgs)} "快速编辑注释") | `);
+        markdownContent.appendMarkdown(`[📝 Markdown编辑](command:localComment.editCommentFromHover?${encodeURIComponent(editArgs)} "多行编辑注释") | `);
+        markdownContent.appendMarkdown(`[↩️ 回复](command:localComment.replyToComment?${encodeURIComponent(editArgs)} "回复注释") | `);
+        markdownContent.appendMarkdown(`[🗑️ 删除](command:localComment.removeCommentFromHover?${encodeURIComponent(removeArgs)} "删除注释")`);
+    }
 
-        return undefined;
+    /**
+     * 将内容中的标签转换为可点击的链接：@标签跳转到声明，$标签列出所有引用
+     */
+    private linkTagReferences(content: string): string {
+        let enhancedContent = '';
+        for (const segment of this.parseCommentIntoSegments(content)) {
+            if (segment.isTag && segment.text.startsWith('@')) {
+                // 提取标签名（去掉@符号）
+                const tagName = segment.text.substring(1);
+                // 创建可点击链接
+                enhancedContent += `[${segment.text}](command:localComment.goToTagDeclaration?${encodeURIComponent(JSON.stringify({tagName}))})`;
+            } else if (segment.isTag) {
+                const tagName = segment.text.substring(1);
+                enhancedContent += `[${segment.text}](command:localComment.findTagReferences?${encodeURIComponent(JSON.stringify({tagName}))} "查找所有引用")`;
+            } else {
+                // 普通文本直接添加
+                enhancedContent += segment.text;
+            }
+        }
+        return enhancedContent;
     }
 }
\ No newline at end of file
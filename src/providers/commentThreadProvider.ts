@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { CommentManager, LocalComment } from '../commentManager';
+import { STATUS_LABELS, getStatus, getCommentPrefix } from '../commentAppearance';
+
+/**
+ * 评论线程中的一条评论：本地注释本身或它的一条回复
+ */
+export class LocalThreadComment implements vscode.Comment {
+    private savedBody: string | vscode.MarkdownString; // 进入编辑前的内容，取消编辑时恢复
+
+    constructor(
+        public body: string | vscode.MarkdownString,
+        public mode: vscode.CommentMode,
+        public author: vscode.CommentAuthorInformation,
+        public timestamp: Date,
+        public contextValue: 'note' | 'reply',
+        public readonly thread: vscode.CommentThread,
+        public readonly commentId: string,
+        public readonly replyId?: string
+    ) {
+        this.savedBody = body;
+    }
+
+    public startEditing(): void {
+        this.savedBody = this.body;
+        this.mode = vscode.CommentMode.Editing;
+    }
+
+    public cancelEditing(): void {
+        this.body = this.savedBody;
+        this.mode = vscode.CommentMode.Preview;
+    }
+
+    public getText(): string {
+        return typeof this.body === 'string' ? this.body : this.body.value;
+    }
+}
+
+/**
+ * 评论线程显示 - 在 localComment.displayMode 为 commentsApi 时，用 VS Code 原生评论线程显示本地注释
+ *
+ * CommentManager 仍是唯一的数据来源：线程的位置取自 getComments 的匹配结果，
+ * 所有编辑都写回 CommentManager 后再重新同步线程
+ */
+export class CommentThreadProvider implements vscode.Disposable {
+    private controller: vscode.CommentController;
+    private threads: Map<string, vscode.CommentThread> = new Map(); // 注释ID -> 线程
+    private signatures: Map<string, string> = new Map(); // 注释ID -> 上次同步的内容，未变化时不重建线程中的评论
+    private enabled = false;
+
+    private static readonly AUTHOR: vscode.CommentAuthorInformation = { name: '本地注释' };
+
+    constructor(private commentManager: CommentManager) {
+        this.controller = vscode.comments.createCommentController('localComment', '本地注释');
+        this.controller.options = {
+            prompt: '添加本地注释...',
+            placeHolder: '支持 Markdown 语法，使用 $标签名 声明标签，使用 @标签名 引用标签'
+        };
+        // 启用后允许在任意行的行号旁新建注释
+        this.controller.commentingRangeProvider = {
+            provideCommentingRanges: (document: vscode.TextDocument) => {
+                if (!this.enabled || document.uri.scheme !== 'file' || document.lineCount === 0) {
+                    return [];
+                }
+                return [new vscode.Range(0, 0, document.lineCount - 1, 0)];
+            }
+        };
+    }
+
+    public setEnabled(enabled: boolean): void {
+        if (this.enabled === enabled) {
+            return;
+        }
+        this.enabled = enabled;
+        if (!enabled) {
+            this.clear();
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * 按最新的匹配结果同步所有可见编辑器中的评论线程
+     */
+    public refresh(): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        const visibleUris = new Set<string>();
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.scheme !== 'file' || visibleUris.has(editor.document.uri.toString())) {
+                continue;
+            }
+            visibleUris.add(editor.document.uri.toString());
+            this.syncDocument(editor.document);
+        }
+
+        // 文档不再可见的线程一并释放，重新打开时再创建
+        for (const [commentId, thread] of this.threads) {
+            if (!visibleUris.has(thread.uri.toString())) {
+                this.disposeThread(commentId);
+            }
+        }
+    }
+
+    public clear(): void {
+        for (const commentId of [...this.threads.keys()]) {
+            this.disposeThread(commentId);
+        }
+    }
+
+    /**
+     * 获取线程对应的注释ID；用户在行号旁新建、尚未保存的线程返回 undefined
+     */
+    public getCommentId(thread: vscode.CommentThread): string | undefined {
+        for (const [commentId, existing] of this.threads) {
+            if (existing === thread) {
+                return commentId;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 线程中的评论进入或退出编辑状态后，重新赋值 comments 才能让编辑器更新显示
+     */
+    public updateThreadComments(thread: vscode.CommentThread): void {
+        thread.comments = [...thread.comments];
+    }
+
+    private syncDocument(document: vscode.TextDocument): void {
+        const matchedIds = new Set<string>();
+
+        for (const comment of this.commentManager.getComments(document.uri)) {
+            matchedIds.add(comment.id);
+            const range = this.getThreadRange(document, comment);
+
+            let thread = this.threads.get(comment.id);
+            if (!thread) {
+                thread = this.controller.createCommentThread(document.uri, range, []);
+                thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+                this.threads.set(comment.id, thread);
+            } else if (!thread.range || !thread.range.isEqual(range)) {
+                // 跟随 CommentMatcher 的匹配结果移动线程
+                thread.range = range;
+            }
+
+            const signature = JSON.stringify([comment.content, comment.replies, comment.status, comment.priority, comment.category]);
+            const isEditing = thread.comments.some(c => c.mode === vscode.CommentMode.Editing);
+            if (this.signatures.get(comment.id) !== signature && !isEditing) {
+                thread.comments = this.createThreadComments(thread, comment);
+                // done 状态对应线程的已解决
+                const isDone = getStatus(comment) === 'done';
+                thread.contextValue = isDone ? 'resolved' : 'unresolved';
+                setThreadState(thread, isDone);
+                const lineLabel = comment.range && comment.range.endLine > comment.range.startLine
+                    ? `第 ${comment.range.startLine + 1}-${comment.range.endLine + 1} 行`
+                    : `第 ${comment.line + 1} 行`;
+                thread.label = `${getCommentPrefix(comment)} ${STATUS_LABELS[getStatus(comment)]} · ${lineLabel}`;
+                this.signatures.set(comment.id, signature);
+            }
+        }
+
+        // 无法匹配到代码或已删除的注释不显示线程
+        for (const [commentId, thread] of this.threads) {
+            if (thread.uri.toString() === document.uri.toString() && !matchedIds.has(commentId)) {
+                this.disposeThread(commentId);
+            }
+        }
+    }
+
+    private createThreadComments(thread: vscode.CommentThread, comment: LocalComment): LocalThreadComment[] {
+        const threadComments = [new LocalThreadComment(
+            new vscode.MarkdownString(comment.content),
+            vscode.CommentMode.Preview,
+            CommentThreadProvider.AUTHOR,
+            new Date(comment.timestamp),
+            'note',
+            thread,
+            comment.id
+        )];
+
+        for (const reply of comment.replies || []) {
+            threadComments.push(new LocalThreadComment(
+                new vscode.MarkdownString(reply.content),
+                vscode.CommentMode.Preview,
+                CommentThreadProvider.AUTHOR,
+                new Date(reply.timestamp),
+                'reply',
+                thread,
+                comment.id,
+                reply.id
+            ));
+        }
+
+        return threadComments;
+    }
+
+    /**
+     * 线程图标显示在范围的最后一行，单行注释使用所在行
+     */
+    private getThreadRange(document: vscode.TextDocument, comment: LocalComment): vscode.Range {
+        if (comment.range) {
+            return document.validateRange(new vscode.Range(
+                comment.range.startLine, comment.range.startCharacter,
+                comment.range.endLine, comment.range.endCharacter
+            ));
+        }
+        return new vscode.Range(comment.line, 0, comment.line, 0);
+    }
+
+    private disposeThread(commentId: string): void {
+        this.threads.get(commentId)?.dispose();
+        this.threads.delete(commentId);
+        this.signatures.delete(commentId);
+    }
+
+    public dispose(): void {
+        this.clear();
+        this.controller.dispose();
+    }
+}
+
+/**
+ * 设置线程的已解决状态：CommentThreadState 在 VS Code 1.74 中还不存在，旧版本只通过 contextValue 区分
+ */
+function setThreadState(thread: vscode.CommentThread, resolved: boolean): void {
+    const states = (vscode as { CommentThreadState?: { Resolved: number; Unresolved: number } }).CommentThreadState;
+    if (states) {
+        (thread as { state?: number }).state = resolved ? states.Resolved : states.Unresolved;
+    }
+}
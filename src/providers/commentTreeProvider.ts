@@ -1,37 +1,240 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { CommentManager, LocalComment, FileComments } from '../commentManager';
+import { CommentManager, LocalComment, FileComments, CommentReply, CommentStatus, CommentPriority } from '../commentManager';
+import {
+    STATUSES, PRIORITIES, STATUS_LABELS, PRIORITY_LABELS, STATUS_THEME_ICONS,
+    getStatus, getStatusAppearance, getPriorityAppearance, getCategoryAppearance
+} from '../commentAppearance';
+
+export type TreeGroupBy = 'file' | 'status' | 'priority' | 'category';
+
+/**
+ * 树视图的筛选条件：同一字段内满足任一值即可，不同字段之间需同时满足，空数组表示不限制
+ */
+export interface TreeFilter {
+    statuses: CommentStatus[];
+    priorities: (CommentPriority | 'none')[]; // none 表示未设置优先级
+    categories: string[]; // 空字符串表示未分类
+}
 
 export class CommentTreeProvider implements vscode.TreeDataProvider<CommentTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<CommentTreeItem | undefined | null | void> = new vscode.EventEmitter<CommentTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<CommentTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
+    private groupBy: TreeGroupBy = 'file';
+    private filter: TreeFilter = { statuses: [], priorities: [], categories: [] };
+
     constructor(private commentManager: CommentManager) {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    public getGroupBy(): TreeGroupBy {
+        return this.groupBy;
+    }
+
+    public setGroupBy(groupBy: TreeGroupBy): void {
+        this.groupBy = groupBy;
+        this.refresh();
+    }
+
+    public getFilter(): TreeFilter {
+        return this.filter;
+    }
+
+    public setFilter(filter: TreeFilter): void {
+        this.filter = filter;
+        // 视图标题栏根据该上下文切换筛选图标
+        vscode.commands.executeCommand('setContext', 'localComment.treeFiltered', this.isFiltered());
+        this.refresh();
+    }
+
+    public isFiltered(): boolean {
+        return this.filter.statuses.length > 0 || this.filter.priorities.length > 0 || this.filter.categories.length > 0;
+    }
+
+    private matchesFilter(comment: LocalComment): boolean {
+        const { statuses, priorities, categories } = this.filter;
+        return (statuses.length === 0 || statuses.includes(getStatus(comment))) &&
+            (priorities.length === 0 || priorities.includes(comment.priority || 'none')) &&
+            (categories.length === 0 || categories.includes(comment.category || ''));
+    }
+
+    /**
+     * 某个文件中通过筛选的注释
+     */
+    private getVisibleComments(filePath: string): LocalComment[] {
+        return (this.commentManager.getAllComments()[filePath] || []).filter(comment => this.matchesFilter(comment));
+    }
+
     getTreeItem(element: CommentTreeItem): vscode.TreeItem {
         return element;
     }
 
     getChildren(element?: CommentTreeItem): Thenable<CommentTreeItem[]> {
         if (!element) {
-            // 根节点，返回所有有注释的文件
-            return Promise.resolve(this.getFileNodes());
+            // 多根工作区在文件之上增加一层工作区文件夹节点
+            const workspaceFolders = vscode.workspace.workspaceFolders || [];
+            const rootNodes = this.groupBy !== 'file'
+                ? this.getGroupNodes()
+                : workspaceFolders.length > 1
+                    ? this.getFolderNodes()
+                    : this.getFileNodes(Object.keys(this.commentManager.getAllComments())); // 根节点，返回所有有注释的文件
+            // 已删除文件的注释放在最后的归档节点下
+            const archiveNode = this.getArchiveNode();
+            return Promise.resolve(archiveNode ? [...rootNodes, archiveNode] : rootNodes);
+        } else if (element.contextValue === 'folder') {
+            // 文件夹节点，返回该文件夹下有注释的文件
+            return Promise.resolve(this.getFileNodes(element.filePaths || []));
         } else if (element.contextValue === 'file') {
             // 文件节点，返回该文件的所有注释
             return Promise.resolve(this.getCommentNodes(element.filePath!));
+        } else if (element.contextValue === 'group') {
+            // 分组节点，返回该分组下所有文件的注释
+            return Promise.resolve(this.getGroupCommentNodes(element.groupComments || []));
+        } else if ((element.contextValue === 'comment' || element.contextValue === 'hidden-comment') && element.comment) {
+            // 注释节点，返回该注释的回复
+            return Promise.resolve(this.getReplyNodes(element.filePath!, element.comment));
+        } else if (element.contextValue === 'archive') {
+            return Promise.resolve(this.getArchivedFileNodes());
+        } else if (element.contextValue === 'archived-file') {
+            return Promise.resolve(this.getArchivedCommentNodes(element.filePath!));
         }
         return Promise.resolve([]);
     }
 
-    private getFileNodes(): CommentTreeItem[] {
+    private getReplyNodes(filePath: string, comment: LocalComment): CommentTreeItem[] {
+        return (comment.replies || []).map(reply => {
+            const replyNode = new CommentTreeItem(
+                reply.content.split('\n')[0],
+                vscode.TreeItemCollapsibleState.None,
+                'reply'
+            );
+            replyNode.filePath = filePath;
+            replyNode.comment = comment;
+            replyNode.reply = reply;
+            replyNode.description = new Date(reply.timestamp).toLocaleString();
+            replyNode.tooltip = new vscode.MarkdownString(reply.content);
+            replyNode.iconPath = new vscode.ThemeIcon('reply');
+            replyNode.command = {
+                command: 'localComment.goToComment',
+                title: '跳转到注释',
+                arguments: [filePath, comment.line, comment.id]
+            };
+            return replyNode;
+        });
+    }
+
+    private getArchiveNode(): CommentTreeItem | undefined {
+        const archived = this.commentManager.getArchivedComments();
+        const commentCount = Object.values(archived).reduce((sum, comments) => sum + comments.length, 0);
+        if (commentCount === 0) {
+            return undefined;
+        }
+
+        const archiveNode = new CommentTreeItem(
+            `已归档 (${commentCount})`,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'archive'
+        );
+        archiveNode.tooltip = '已删除文件的注释，可以恢复到原文件或其他文件，也可以彻底清除';
+        archiveNode.iconPath = new vscode.ThemeIcon('archive');
+        return archiveNode;
+    }
+
+    private getArchivedFileNodes(): CommentTreeItem[] {
+        const archived = this.commentManager.getArchivedComments();
+        return Object.keys(archived)
+            .filter(filePath => archived[filePath].length > 0)
+            .sort()
+            .map(filePath => {
+                const fileNode = new CommentTreeItem(
+                    `${path.basename(filePath)} (${archived[filePath].length})`,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'archived-file'
+                );
+                fileNode.filePath = filePath;
+                fileNode.description = vscode.workspace.asRelativePath(path.dirname(filePath));
+                fileNode.tooltip = filePath;
+                fileNode.iconPath = new vscode.ThemeIcon('trash');
+                return fileNode;
+            });
+    }
+
+    private getArchivedCommentNodes(filePath: string): CommentTreeItem[] {
+        const comments = this.commentManager.getArchivedComments()[filePath] || [];
+        return [...comments]
+            .sort((a, b) => a.line - b.line)
+            .map(comment => {
+                const commentNode = new CommentTreeItem(
+                    `第${comment.line + 1}行: ${comment.content}`,
+                    vscode.TreeItemCollapsibleState.None,
+                    'archived-comment'
+                );
+                commentNode.filePath = filePath;
+                commentNode.comment = comment;
+
+                const markdownTooltip = new vscode.MarkdownString();
+                markdownTooltip.appendMarkdown(comment.content);
+                if (comment.archivedAt) {
+                    markdownTooltip.appendMarkdown(`\n\n*文件删除于 ${new Date(comment.archivedAt).toLocaleString()}*`);
+                }
+                commentNode.tooltip = markdownTooltip;
+                commentNode.iconPath = new vscode.ThemeIcon('comment-discussion');
+                return commentNode;
+            });
+    }
+
+    private getFolderNodes(): CommentTreeItem[] {
         const allComments = this.commentManager.getAllComments();
+        const folderFiles = new Map<string, { folder: vscode.WorkspaceFolder | undefined; filePaths: string[] }>();
+
+        // 按 getWorkspaceFolder 将文件归入所属的工作区文件夹，保持工作区中的文件夹顺序
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            folderFiles.set(folder.uri.toString(), { folder, filePaths: [] });
+        }
+        for (const filePath of Object.keys(allComments)) {
+            if (this.getVisibleComments(filePath).length === 0) {
+                continue;
+            }
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+            const key = folder ? folder.uri.toString() : '';
+            if (!folderFiles.has(key)) {
+                folderFiles.set(key, { folder, filePaths: [] });
+            }
+            folderFiles.get(key)!.filePaths.push(filePath);
+        }
+
+        const folderNodes: CommentTreeItem[] = [];
+        for (const { folder, filePaths } of folderFiles.values()) {
+            if (filePaths.length === 0) {
+                continue;
+            }
+            const commentCount = filePaths.reduce((sum, filePath) => sum + this.getVisibleComments(filePath).length, 0);
+            const folderNode = new CommentTreeItem(
+                `${folder ? folder.name : '工作区外的文件'} (${commentCount})`,
+                vscode.TreeItemCollapsibleState.Expanded,
+                'folder'
+            );
+            folderNode.filePaths = filePaths;
+            folderNode.tooltip = folder ? folder.uri.fsPath : '不属于任何工作区文件夹的文件';
+            folderNode.iconPath = new vscode.ThemeIcon(folder ? 'root-folder' : 'folder');
+            folderNodes.push(folderNode);
+        }
+
+        if (folderNodes.length === 0) {
+            return this.getFileNodes([]);
+        }
+
+        return folderNodes;
+    }
+
+    private getFileNodes(filePaths: string[]): CommentTreeItem[] {
         const fileNodes: CommentTreeItem[] = [];
 
-        for (const [filePath, comments] of Object.entries(allComments)) {
+        for (const filePath of filePaths) {
+            const comments = this.getVisibleComments(filePath);
             if (comments.length > 0) {
                 const fileName = path.basename(filePath);
                 const fileNode = new CommentTreeItem(
@@ -47,75 +250,127 @@ export class CommentTreeProvider implements vscode.TreeDataProvider<CommentTreeI
         }
 
         if (fileNodes.length === 0) {
-            const emptyNode = new CommentTreeItem(
-                '暂无本地注释',
-                vscode.TreeItemCollapsibleState.None,
-                'empty'
-            );
-            emptyNode.iconPath = new vscode.ThemeIcon('info');
-            return [emptyNode];
+            return [this.createEmptyNode()];
         }
 
         return fileNodes;
     }
 
+    private createEmptyNode(): CommentTreeItem {
+        const emptyNode = new CommentTreeItem(
+            this.isFiltered() ? '没有符合筛选条件的注释' : '暂无本地注释',
+            vscode.TreeItemCollapsibleState.None,
+            'empty'
+        );
+        emptyNode.iconPath = new vscode.ThemeIcon('info');
+        return emptyNode;
+    }
+
+    /**
+     * 按状态、优先级或分类分组的根节点，跨文件汇总注释
+     */
+    private getGroupNodes(): CommentTreeItem[] {
+        const groups = new Map<string, { filePath: string; comment: LocalComment }[]>();
+        for (const filePath of Object.keys(this.commentManager.getAllComments()).sort()) {
+            for (const comment of this.getVisibleComments(filePath)) {
+                const key = this.getGroupKey(comment);
+                if (!groups.has(key)) {
+                    groups.set(key, []);
+                }
+                groups.get(key)!.push({ filePath, comment });
+            }
+        }
+
+        if (groups.size === 0) {
+            return [this.createEmptyNode()];
+        }
+
+        return this.getOrderedGroupKeys([...groups.keys()]).map(key => {
+            const groupComments = groups.get(key)!;
+            const groupNode = new CommentTreeItem(
+                `${this.getGroupLabel(key)} (${groupComments.length})`,
+                vscode.TreeItemCollapsibleState.Expanded,
+                'group'
+            );
+            groupNode.groupComments = groupComments;
+            groupNode.iconPath = this.getGroupIcon(key);
+            return groupNode;
+        });
+    }
+
+    private getGroupKey(comment: LocalComment): string {
+        switch (this.groupBy) {
+            case 'status':
+                return getStatus(comment);
+            case 'priority':
+                return comment.priority || 'none';
+            default:
+                return comment.category || '';
+        }
+    }
+
+    /**
+     * 状态与优先级按固定顺序排列，分类按名称排列，未设置的分组放在最后
+     */
+    private getOrderedGroupKeys(keys: string[]): string[] {
+        const order: string[] = this.groupBy === 'status'
+            ? STATUSES
+            : this.groupBy === 'priority'
+                ? [...PRIORITIES, 'none']
+                : [...keys.filter(key => key !== '').sort(), ''];
+        return order.filter(key => keys.includes(key));
+    }
+
+    private getGroupLabel(key: string): string {
+        if (this.groupBy === 'status') {
+            return `${getStatusAppearance(key as CommentStatus).icon} ${STATUS_LABELS[key as CommentStatus]}`;
+        }
+        if (this.groupBy === 'priority') {
+            return key === 'none'
+                ? '未设置优先级'
+                : `${getPriorityAppearance(key as CommentPriority).icon} ${PRIORITY_LABELS[key as CommentPriority]}优先级`;
+        }
+        if (key === '') {
+            return '未分类';
+        }
+        const icon = getCategoryAppearance(key).icon;
+        return icon ? `${icon} ${key}` : key;
+    }
+
+    private getGroupIcon(key: string): vscode.ThemeIcon {
+        if (this.groupBy === 'status') {
+            return new vscode.ThemeIcon(STATUS_THEME_ICONS[key as CommentStatus]);
+        }
+        return new vscode.ThemeIcon(this.groupBy === 'priority' ? 'flame' : 'symbol-folder');
+    }
+
+    private getGroupCommentNodes(groupComments: { filePath: string; comment: LocalComment }[]): CommentTreeItem[] {
+        const matchedByFile = new Map<string, Map<string, LocalComment>>();
+        return groupComments.map(({ filePath, comment }) => {
+            if (!matchedByFile.has(filePath)) {
+                const matched = this.commentManager.getComments(vscode.Uri.file(filePath));
+                matchedByFile.set(filePath, new Map(matched.map(c => [c.id, c])));
+            }
+            // 分组下的注释来自不同文件，在描述中显示文件名
+            return this.createCommentNode(filePath, comment, matchedByFile.get(filePath)!.get(comment.id), true);
+        });
+    }
+
     private getCommentNodes(filePath: string): CommentTreeItem[] {
         // 使用getComments方法获取最新的注释状态
         const uri = vscode.Uri.file(filePath);
         const matchedComments = this.commentManager.getComments(uri);
         const commentNodes: CommentTreeItem[] = [];
 
-        // 获取所有注释（包括未匹配的）
-        const allComments = this.commentManager.getAllComments()[filePath] || [];
-
         // 创建匹配注释的Map，提高查找效率
         const matchedCommentsMap = new Map(
             matchedComments.map(comment => [comment.id, comment])
         );
 
-        // 处理所有注释，包括未匹配的
-        for (const comment of allComments) {
+        // 处理所有通过筛选的注释，包括未匹配的
+        for (const comment of this.getVisibleComments(filePath)) {
             // 使用Map快速查找匹配的注释
-            const matchedComment = matchedCommentsMap.get(comment.id);
-            const isMatchable = matchedComment !== undefined;
-            
-            const label = `第${(matchedComment?.line || comment.line) + 1}行: ${comment.content}`;
-            
-            const commentNode = new CommentTreeItem(
-                label,
-                vscode.TreeItemCollapsibleState.None,
-                isMatchable ? 'comment' : 'hidden-comment'
-            );
-            
-            commentNode.filePath = filePath;
-            commentNode.comment = matchedComment || comment;
-            
-            // 创建Markdown格式的tooltip
-            const markdownTooltip = new vscode.MarkdownString();
-            markdownTooltip.appendMarkdown(comment.content);
-            
-            if (!isMatchable) {
-                // 添加隐藏状态的提示
-                markdownTooltip.appendMarkdown('\n\n*注释当前无法匹配到代码，已被隐藏*');
-                // 使用暗色主题图标
-                commentNode.iconPath = new vscode.ThemeIcon('comment-unresolved');
-                // 应用特殊CSS类
-                commentNode.resourceUri = vscode.Uri.parse(`hidden-comment:${comment.id}`);
-            } else {
-                commentNode.iconPath = new vscode.ThemeIcon('comment');
-            }
-            
-            commentNode.tooltip = markdownTooltip;
-            
-            // 添加命令，点击时跳转到对应位置
-            // 即使是隐藏注释也可以尝试跳转，用户可能想手动查找
-            commentNode.command = {
-                command: 'localComment.goToComment',
-                title: '跳转到注释',
-                arguments: [filePath, matchedComment?.line || comment.line]
-            };
-
-            commentNodes.push(commentNode);
+            commentNodes.push(this.createCommentNode(filePath, comment, matchedCommentsMap.get(comment.id), false));
         }
 
         // 按行号排序
@@ -125,6 +380,73 @@ export class CommentTreeProvider implements vscode.TreeDataProvider<CommentTreeI
             return lineA - lineB;
         });
     }
+
+    private createCommentNode(filePath: string, comment: LocalComment, matchedComment: LocalComment | undefined, showFile: boolean): CommentTreeItem {
+        const isMatchable = matchedComment !== undefined;
+        const displayComment = matchedComment || comment;
+        // 范围注释显示覆盖的行区间
+        const lineLabel = displayComment.range && displayComment.range.endLine > displayComment.range.startLine
+            ? `${displayComment.range.startLine + 1}-${displayComment.range.endLine + 1}`
+            : `${displayComment.line + 1}`;
+        const label = `第${lineLabel}行: ${comment.content}`;
+
+        const commentNode = new CommentTreeItem(
+            label,
+            comment.replies && comment.replies.length > 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None,
+            isMatchable ? 'comment' : 'hidden-comment'
+        );
+
+        commentNode.filePath = filePath;
+        commentNode.comment = displayComment;
+
+        // 创建Markdown格式的tooltip
+        const markdownTooltip = new vscode.MarkdownString();
+        markdownTooltip.appendMarkdown(comment.content);
+
+        const status = getStatus(comment);
+        if (!isMatchable) {
+            // 添加隐藏状态的提示
+            markdownTooltip.appendMarkdown('\n\n*注释当前无法匹配到代码，已被隐藏，可以使用"重新定位注释"为它选择新位置*');
+            // 使用暗色主题图标
+            commentNode.iconPath = new vscode.ThemeIcon('comment-unresolved');
+            // 应用特殊CSS类
+            commentNode.resourceUri = vscode.Uri.parse(`hidden-comment:${comment.id}`);
+        } else {
+            commentNode.iconPath = new vscode.ThemeIcon(STATUS_THEME_ICONS[status]);
+        }
+
+        // 描述中依次显示状态、优先级和分类，note 是默认状态不显示
+        const details: string[] = [];
+        if (status !== 'note') {
+            details.push(STATUS_LABELS[status]);
+        }
+        if (comment.priority) {
+            details.push(`${getPriorityAppearance(comment.priority).icon}${PRIORITY_LABELS[comment.priority]}`);
+        }
+        if (comment.category) {
+            details.push(`${getCategoryAppearance(comment.category).icon || ''}[${comment.category}]`);
+        }
+        if (showFile) {
+            details.push(path.basename(filePath));
+        }
+        if (details.length > 0) {
+            commentNode.description = details.join(' ');
+        }
+
+        commentNode.tooltip = markdownTooltip;
+
+        // 添加命令，点击时跳转到对应位置
+        // 即使是隐藏注释也可以尝试跳转，用户可能想手动查找
+        commentNode.command = {
+            command: 'localComment.goToComment',
+            title: '跳转到注释',
+            arguments: [filePath, displayComment.line, comment.id]
+        };
+
+        return commentNode;
+    }
 }
 
 export class CommentTreeItem extends vscode.TreeItem {
@@ -137,5 +459,8 @@ export class CommentTreeItem extends vscode.TreeItem {
     }
 
     filePath?: string;
+    filePaths?: string[]; // 文件夹节点下包含注释的文件
     comment?: LocalComment;
+    reply?: CommentReply; // 回复节点对应的回复，comment 为被回复的注释
+    groupComments?: { filePath: string; comment: LocalComment }[]; // 分组节点下的注释
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { TagManager } from '../tagManager';
 import { CommentManager } from '../commentManager';
+import { getTagCompletions, getTagPrefixBeforeCursor } from '../core/tagParser';
 
 export class TagCompletionProvider implements vscode.CompletionItemProvider {
     constructor(
@@ -45,46 +46,43 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
 
         // 检查光标前的字符是否是 @
         const textBeforeCursor = commentContent.substring(0, relativePosition);
-        const atMatch = textBeforeCursor.match(/@([a-zA-Z_][a-zA-Z0-9_]*)$/);
+        const partialTag = getTagPrefixBeforeCursor(textBeforeCursor);
         
-        if (!atMatch && !textBeforeCursor.endsWith('@')) {
+        if (partialTag === undefined) {
             return [];
         }
 
-        // 获取可用的标签
-        const availableTags = this.tagManager.getAvailableTagNames();
+        // 按层级补全：每次只补全一级，选中带分隔符的路径后继续补全下一级
         const completionItems: vscode.CompletionItem[] = [];
+        // 替换已经输入的部分
+        const range = new vscode.Range(position.line, position.character - partialTag.length, position.line, position.character);
 
-        for (const tagName of availableTags) {
-            const declaration = this.tagManager.getTagDeclaration(tagName);
-            if (declaration) {
-                const item = new vscode.CompletionItem(tagName, vscode.CompletionItemKind.Reference);
-                item.detail = `标签引用: $${tagName}`;
+        for (const completion of getTagCompletions(partialTag, this.tagManager.getAvailableTagNames())) {
+            let item: vscode.CompletionItem;
+            if (completion.kind === 'wildcard') {
+                item = new vscode.CompletionItem(completion.insertText, vscode.CompletionItemKind.Folder);
+                item.detail = `引用 ${completion.path} 的所有子标签（${completion.childCount} 个）`;
+            } else if (completion.kind === 'namespace') {
+                item = new vscode.CompletionItem(completion.insertText, vscode.CompletionItemKind.Module);
+                item.detail = `${completion.childCount} 个子标签`;
+                item.command = { command: 'editor.action.triggerSuggest', title: '继续补全子标签' };
+            } else {
+                const declaration = this.tagManager.getTagDeclaration(completion.path)!;
+                item = new vscode.CompletionItem(completion.path, vscode.CompletionItemKind.Reference);
+                item.detail = `标签引用: $${completion.path}`;
                 item.documentation = new vscode.MarkdownString(
                     `**标签声明位置:**\n\n` +
                     `文件: ${declaration.filePath.split(/[/\\]/).pop()}\n\n` +
                     `行号: ${declaration.line + 1}\n\n` +
                     `内容: ${declaration.content}`
                 );
-                
-                // 设置插入文本
-                if (textBeforeCursor.endsWith('@')) {
-                    item.insertText = tagName;
-                } else {
-                    // 替换已经输入的部分
-                    const partialTag = atMatch![1];
-                    item.insertText = tagName;
-                    item.range = new vscode.Range(
-                        position.line,
-                        position.character - partialTag.length,
-                        position.line,
-                        position.character
-                    );
-                }
-                
-                item.sortText = `0${tagName}`; // 确保标签补全排在前面
-                completionItems.push(item);
             }
+
+            item.insertText = completion.insertText;
+            item.filterText = completion.insertText;
+            item.range = range;
+            item.sortText = `0${completion.insertText}`; // 确保标签补全排在前面
+            completionItems.push(item);
         }
 
         return completionItems;
@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { CommentManager, LocalComment } from '../commentManager';
+import { ParsedTag, TagKind, collectTags } from '../core/tagParser';
+
+export interface TagAtPosition {
+    tag: ParsedTag;
+    comment: LocalComment;
+}
+
+/**
+ * 查找编辑器中某个位置对应的注释标签
+ *
+ * 注释以装饰的形式显示在行末，光标无法进入注释文字，因此光标停在代码行末尾时
+ * 取该行所有注释中的标签，同一个标签只保留一处
+ */
+export function findTagsAtPosition(
+    commentManager: CommentManager,
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    kind?: TagKind
+): TagAtPosition[] {
+    if (position.character !== document.lineAt(position.line).text.length) {
+        return [];
+    }
+    const lineComments = commentManager.getComments(document.uri).filter(c => c.line === position.line);
+    return collectTags(lineComments, kind);
+}
+
+/**
+ * 只有一个标签时直接使用，有多个时让用户选择
+ */
+export async function pickTagAtPosition(found: TagAtPosition[], placeHolder: string): Promise<TagAtPosition | undefined> {
+    if (found.length <= 1) {
+        return found[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        found.map(item => ({ label: item.tag.text, description: item.comment.content.split('\n')[0], item })),
+        { placeHolder }
+    );
+    return picked?.item;
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TagHealth } from '../tagHealth';
+import { TagManager } from '../tagManager';
+import { TagProblem, TagProblemKind, TagSite } from '../core/tagHealth';
+import { formatTagName } from '../core/tagParser';
+
+const PROBLEM_APPEARANCE: Record<TagProblemKind, { icon: string; color: string; describe: (problem: TagProblem) => string }> = {
+    duplicateDeclaration: {
+        icon: 'error',
+        color: 'problemsErrorIcon.foreground',
+        describe: problem => `重复声明 ${problem.sites.length} 次`
+    },
+    unknownReference: {
+        icon: 'warning',
+        color: 'problemsWarningIcon.foreground',
+        describe: problem => problem.wildcard
+            ? `没有任何子标签，${problem.sites.length} 处通配引用`
+            : `标签未声明，${problem.sites.length} 处引用`
+    },
+    orphanedDeclaration: {
+        icon: 'warning',
+        color: 'problemsWarningIcon.foreground',
+        describe: () => '声明所在的注释无法匹配到代码'
+    },
+    unusedDeclaration: {
+        icon: 'info',
+        color: 'problemsInfoIcon.foreground',
+        describe: () => '没有被引用'
+    }
+};
+
+/**
+ * "标签问题"视图：每个问题一个节点，子节点为问题涉及的声明或引用
+ */
+export class TagProblemsProvider implements vscode.TreeDataProvider<TagProblemItem>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TagProblemItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TagProblemItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private problems: TagProblem[] | undefined; // 未计算时为空，视图展开时再计算
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    // 输入注释时标签会频繁更新，问题列表稍后统一刷新
+    private static readonly REFRESH_DELAY = 500;
+
+    constructor(private tagHealth: TagHealth, tagManager: TagManager) {
+        this.disposables.push(
+            tagManager.onDidUpdateTags(() => this.scheduleRefresh()),
+            this._onDidChangeTreeData
+        );
+    }
+
+    public refresh(): void {
+        this.problems = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getProblems(): TagProblem[] {
+        if (!this.problems) {
+            this.problems = this.tagHealth.getProblems();
+        }
+        return this.problems;
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, TagProblemsProvider.REFRESH_DELAY);
+    }
+
+    getTreeItem(element: TagProblemItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: TagProblemItem): TagProblemItem[] {
+        if (!element) {
+            return this.getProblems().map(problem => this.createProblemNode(problem));
+        }
+        if (element.problem && !element.site) {
+            return element.problem.sites.map(site => this.createSiteNode(element.problem!, site));
+        }
+        return [];
+    }
+
+    private createProblemNode(problem: TagProblem): TagProblemItem {
+        const appearance = PROBLEM_APPEARANCE[problem.kind];
+        const tagText = `${problem.kind === 'unknownReference' ? '@' : '$'}${formatTagName({ name: problem.tagName, wildcard: problem.wildcard })}`;
+        const node = new TagProblemItem(tagText, vscode.TreeItemCollapsibleState.Collapsed, `tagProblem-${problem.kind}`);
+        node.problem = problem;
+        node.description = appearance.describe(problem);
+        node.tooltip = `${tagText}: ${node.description}`;
+        node.iconPath = new vscode.ThemeIcon(appearance.icon, new vscode.ThemeColor(appearance.color));
+        return node;
+    }
+
+    private createSiteNode(problem: TagProblem, site: TagSite): TagProblemItem {
+        const content = this.tagHealth.getSiteContent(site) || '';
+        const node = new TagProblemItem(
+            `${path.basename(site.filePath)}:${site.line + 1}`,
+            vscode.TreeItemCollapsibleState.None,
+            `tagSite-${problem.kind}`
+        );
+        node.problem = problem;
+        node.site = site;
+        node.description = `${site.replyId ? '回复: ' : ''}${content.split('\n')[0]}`;
+        node.tooltip = new vscode.MarkdownString(`**${vscode.workspace.asRelativePath(site.filePath)}:${site.line + 1}**\n\n${content}`);
+        node.iconPath = new vscode.ThemeIcon(site.replyId ? 'reply' : 'comment');
+        node.command = {
+            command: 'localComment.goToComment',
+            title: '跳转到注释',
+            arguments: [site.filePath, site.line, site.commentId]
+        };
+        return node;
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+export class TagProblemItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly contextValue: string
+    ) {
+        super(label, collapsibleState);
+    }
+
+    problem?: TagProblem;
+    site?: TagSite; // 问题涉及的一处声明或引用，问题节点为空
+}
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { CommentManager } from '../commentManager';
+import { TagHealth } from '../tagHealth';
+import { findTagsAtPosition } from './tagPosition';
+
+/**
+ * 查找标签的所有引用（Shift+F12），位置为声明或引用所在注释的代码行
+ */
+export class TagReferenceProvider implements vscode.ReferenceProvider {
+    constructor(
+        private tagHealth: TagHealth,
+        private commentManager: CommentManager
+    ) {}
+
+    public provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Location[]> {
+        // 行末有多个标签时列出所有标签的引用，通配引用列出所有子标签的声明
+        return findTagsAtPosition(this.commentManager, document, position)
+            .flatMap(({ tag }) => tag.wildcard
+                ? this.tagHealth.getChildDeclarationSites(tag.name)
+                : this.tagHealth.getReferencingSites(tag.name).filter(site => context.includeDeclaration || site.kind === 'reference'))
+            .map(site => new vscode.Location(vscode.Uri.file(site.filePath), new vscode.Position(site.line, 0)));
+    }
+}
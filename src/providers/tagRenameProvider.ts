@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { CommentManager } from '../commentManager';
+import { TagHealth } from '../tagHealth';
+import { TagAtPosition, findTagsAtPosition, pickTagAtPosition } from './tagPosition';
+
+/**
+ * 重命名标签（F2）
+ *
+ * 标签保存在注释数据中而不在文档里，无法通过 WorkspaceEdit 修改。这里选择标签并校验新名称，
+ * 实际的预览、修改与撤销交给 localComment.renameTag 命令，命令完成后返回空的编辑
+ */
+export class TagRenameProvider implements vscode.RenameProvider {
+    private prepared: { uri: string; line: number; found: TagAtPosition } | undefined; // prepareRename 中选定的标签
+
+    constructor(
+        private tagHealth: TagHealth,
+        private commentManager: CommentManager
+    ) {}
+
+    /**
+     * 光标处没有标签时返回 undefined，交给语言自身的重命名处理
+     *
+     * 标签显示在行末装饰中，文档里没有它的位置，因此返回注释所在的代码范围
+     */
+    public async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<{ range: vscode.Range; placeholder: string } | undefined> {
+        this.prepared = undefined;
+        const found = await pickTagAtPosition(findTagsAtPosition(this.commentManager, document, position), '选择要重命名的标签');
+        if (!found) {
+            return undefined;
+        }
+
+        this.prepared = { uri: document.uri.toString(), line: position.line, found };
+        const line = document.lineAt(position.line);
+        return {
+            range: new vscode.Range(position.line, line.firstNonWhitespaceCharacterIndex, position.line, line.text.length),
+            placeholder: found.tag.name
+        };
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const prepared = this.prepared;
+        this.prepared = undefined;
+        const found = prepared && prepared.uri === document.uri.toString() && prepared.line === position.line
+            ? prepared.found
+            : await pickTagAtPosition(findTagsAtPosition(this.commentManager, document, position), '选择要重命名的标签');
+        if (!found) {
+            return undefined;
+        }
+
+        const tagName = found.tag.name;
+        if (newName === tagName) {
+            return new vscode.WorkspaceEdit();
+        }
+        const error = this.tagHealth.validateNewName(newName, tagName, this.tagHealth.isDeclared(tagName));
+        if (error) {
+            throw new Error(error);
+        }
+        // 命令自行显示预览与错误，这里只把结果反馈给重命名输入框
+        const renamed = await vscode.commands.executeCommand<boolean>('localComment.renameTag', { tagName, newName });
+        if (!renamed) {
+            throw new Error(`标签 ${tagName} 没有被重命名`);
+        }
+        return new vscode.WorkspaceEdit();
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TagHealth } from '../tagHealth';
+import { TagManager } from '../tagManager';
+import { TagSite } from '../core/tagHealth';
+import { TAG_PATH_SEPARATOR, formatTagName, getTagCompletions } from '../core/tagParser';
+
+/**
+ * "本地注释标签"视图：按层级列出所有标签，每个标签下先是声明所在的注释，再是引用它的注释，最后是子标签
+ */
+export class TagTreeProvider implements vscode.TreeDataProvider<TagTreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TagTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TagTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private undeclaredNames: string[] | undefined; // 未计算时为空，视图展开时再计算
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private tagManager: TagManager, private tagHealth: TagHealth) {
+        this.disposables.push(
+            tagManager.onDidUpdateTags(() => this.refresh()),
+            this._onDidChangeTreeData
+        );
+    }
+
+    public refresh(): void {
+        this.undeclaredNames = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: TagTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: TagTreeItem): TagTreeItem[] {
+        if (element?.site) {
+            return [];
+        }
+        if (!this.undeclaredNames) {
+            this.undeclaredNames = this.tagHealth.getUndeclaredReferenceNames();
+        }
+        const undeclared = new Set(this.undeclaredNames);
+        const tagNames = [...this.tagManager.getAvailableTagNames(), ...undeclared];
+
+        // 与补全相同，每次取下一级：标签与还有子标签的路径各占一个节点
+        const prefix = element ? element.tagName + TAG_PATH_SEPARATOR : '';
+        const paths = new Map<string, number>();
+        for (const completion of getTagCompletions(prefix, tagNames)) {
+            if (completion.kind !== 'wildcard') {
+                paths.set(completion.path, completion.childCount);
+            }
+        }
+        const tagNodes = [...paths].map(([tagName, childCount]) => this.createTagNode(tagName, childCount, undeclared.has(tagName)));
+        if (!element) {
+            return tagNodes;
+        }
+
+        const { declarations, references } = this.getCommentSites(element.tagName);
+        return [
+            ...declarations.map(site => this.createCommentNode(element.tagName, site)),
+            ...references.map(site => this.createCommentNode(element.tagName, site)),
+            ...tagNodes
+        ];
+    }
+
+    /**
+     * 标签的声明与引用，引用包括上级标签的通配引用和写作 @标签名.* 的通配引用
+     */
+    private getCommentSites(tagName: string): { declarations: TagSite[]; references: TagSite[] } {
+        const sites = this.tagHealth.getReferencingSites(tagName);
+        return {
+            declarations: sites.filter(site => site.kind === 'declaration'),
+            references: [...sites.filter(site => site.kind === 'reference'), ...this.tagHealth.getWildcardSites(tagName)]
+        };
+    }
+
+    private createTagNode(tagName: string, childCount: number, undeclared: boolean): TagTreeItem {
+        const { declarations, references } = this.getCommentSites(tagName);
+        const declared = declarations.length > 0;
+        const segments = tagName.split(TAG_PATH_SEPARATOR);
+        const node = new TagTreeItem(
+            segments[segments.length - 1],
+            tagName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            declared ? 'tag' : undeclared ? 'tagUndeclared' : 'tagNamespace'
+        );
+
+        const counts: string[] = [];
+        if (undeclared) {
+            counts.push('未声明');
+        }
+        if (declared || references.length > 0) {
+            counts.push(`${references.length} 处引用`);
+        }
+        if (childCount > 0) {
+            counts.push(`${childCount} 个子标签`);
+        }
+        node.description = counts.join(' · ');
+        node.tooltip = `${declared ? '$' : '@'}${tagName}${node.description ? `: ${node.description}` : ''}`;
+
+        // 点击已声明的标签跳转到声明，未声明的标签跳转到第一处引用，只有子标签的路径在子标签中选择
+        if (declared) {
+            node.iconPath = new vscode.ThemeIcon('tag');
+            node.command = {
+                command: 'localComment.goToTagDeclaration',
+                title: '跳转到标签声明',
+                arguments: [{ tagName }]
+            };
+        } else if (undeclared) {
+            node.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            node.command = this.createGoToCommentCommand(references[0]);
+        } else {
+            node.iconPath = new vscode.ThemeIcon('symbol-namespace');
+            node.command = {
+                command: 'localComment.goToTagDeclaration',
+                title: '选择子标签',
+                arguments: [{ tagName: formatTagName({ name: tagName, wildcard: true }) }]
+            };
+        }
+        return node;
+    }
+
+    private createCommentNode(tagName: string, site: TagSite): TagTreeItem {
+        const content = this.tagHealth.getSiteContent(site) || '';
+        const node = new TagTreeItem(
+            `${path.basename(site.filePath)}:${site.line + 1}`,
+            tagName,
+            vscode.TreeItemCollapsibleState.None,
+            site.kind === 'declaration' ? 'tagDeclarationComment' : 'tagReferenceComment'
+        );
+        node.site = site;
+        node.description = `${site.wildcard ? `@${formatTagName({ name: site.tagName, wildcard: true })} · ` : ''}${site.replyId ? '回复: ' : ''}${content.split('\n')[0]}`;
+        node.tooltip = new vscode.MarkdownString(`**${vscode.workspace.asRelativePath(site.filePath)}:${site.line + 1}**\n\n${content}`);
+        node.iconPath = new vscode.ThemeIcon(site.kind === 'declaration' ? 'symbol-key' : 'references');
+        node.command = this.createGoToCommentCommand(site);
+        return node;
+    }
+
+    private createGoToCommentCommand(site: TagSite): vscode.Command {
+        return {
+            command: 'localComment.goToComment',
+            title: '跳转到注释',
+            arguments: [site.filePath, site.line, site.commentId]
+        };
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+export class TagTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly tagName: string, // 完整的标签路径，标签命令通过它识别节点
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly contextValue: string
+    ) {
+        super(label, collapsibleState);
+    }
+
+    site?: TagSite; // 注释节点对应的声明或引用，标签节点为空
+}
@@ -1,5 +1,14 @@
 import * as vscode from 'vscode';
 import { TagManager } from './tagManager';
+import { getTagCompletions, isTagNamePrefix } from './core/tagParser';
+
+/**
+ * 标签补全项：选中后把 @ 之后的内容替换为 originalTag
+ */
+interface TagCompletionItem extends vscode.QuickPickItem {
+    originalTag: string;
+    isNamespace: boolean; // 带分隔符的路径，选中后继续补全下一级
+}
 
 export async function showQuickInputWithTagCompletion(
     prompt: string, 
@@ -8,7 +17,7 @@ export async function showQuickInputWithTagCompletion(
     tagManager?: TagManager
 ): Promise<string | undefined> {
     return new Promise<string | undefined>((resolve) => {
-        const quickPick = vscode.window.createQuickPick();
+        const quickPick = vscode.window.createQuickPick<TagCompletionItem>();
         quickPick.placeholder = placeholder;
         quickPick.title = prompt;
         quickPick.value = value || '';
@@ -25,20 +34,22 @@ export async function showQuickInputWithTagCompletion(
             if (lastAtIndex !== -1 && tagManager) {
                 const afterAt = inputValue.substring(lastAtIndex + 1);
                 
-                if (/^[a-zA-Z0-9_]*$/.test(afterAt)) {
+                if (isTagNamePrefix(afterAt)) {
                     const availableTags = tagManager.getAvailableTagNames();
                     
                     if (availableTags.length > 0) {
-                        const filteredTags = availableTags.filter((tag: string) => 
-                            afterAt === '' || tag.toLowerCase().startsWith(afterAt.toLowerCase())
-                        );
+                        // 按层级补全，选中带分隔符的路径后继续补全下一级
+                        const completions = getTagCompletions(afterAt, availableTags);
                         
-                        if (filteredTags.length > 0) {
-                            const items = filteredTags.map((tag: string) => ({
-                                label: `@${tag}`,
-                                description: '🏷️ 标签补全',
-                                detail: `插入标签引用 @${tag}`,
-                                originalTag: tag
+                        if (completions.length > 0) {
+                            const items = completions.map((completion): TagCompletionItem => ({
+                                label: `@${completion.insertText}`,
+                                description: completion.kind === 'tag' ? '🏷️ 标签补全' : `📂 ${completion.childCount} 个子标签`,
+                                detail: completion.kind === 'wildcard'
+                                    ? `引用 ${completion.path} 的所有子标签`
+                                    : completion.kind === 'namespace' ? `继续补全 ${completion.path} 的子标签` : `插入标签引用 @${completion.path}`,
+                                originalTag: completion.insertText,
+                                isNamespace: completion.kind === 'namespace'
                             }));
                             
                             quickPick.items = items;
@@ -80,10 +91,11 @@ export async function showQuickInputWithTagCompletion(
                 const currentValue = quickPick.value;
                 const lastAtIndex = currentValue.lastIndexOf('@');
                 
-                if (lastAtIndex !== -1 && (selectedItem as any).originalTag) {
+                if (lastAtIndex !== -1 && selectedItem.originalTag) {
                     // 只替换@后面的部分
                     const beforeAt = currentValue.substring(0, lastAtIndex + 1); // 包含@
-                    const newValue = beforeAt + (selectedItem as any).originalTag + ' '; // @标签名 + 空格
+                    // @标签名 + 空格；选中带分隔符的路径时不加空格，继续补全下一级
+                    const newValue = beforeAt + selectedItem.originalTag + (selectedItem.isNamespace ? '' : ' ');
                     quickPick.value = newValue;
                     quickPick.items = [];
                     isShowingCompletions = false;
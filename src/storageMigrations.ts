@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { FileComments } from './commentManager';
+
+export interface ProjectMetadata {
+    name: string;
+    rootPath?: string; // 写入时工作区文件夹的绝对路径，关联项目时用于重新定位旧路径
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * 存储文件的顶层结构
+ */
+export interface StorageEnvelope {
+    schemaVersion: number;
+    project: ProjectMetadata;
+    comments: FileComments;
+    archived: FileComments; // 已删除文件的注释，键的格式与 comments 相同
+}
+
+export interface MigrationContext {
+    folderPath?: string; // 存储文件对应的工作区文件夹，全局存储时为空
+    projectName: string;
+}
+
+export interface StorageMigration {
+    version: number; // 迁移完成后的版本号
+    description: string;
+    migrate(data: any, context: MigrationContext): any;
+}
+
+/**
+ * 按版本号顺序注册的迁移，加载时从文件当前版本依次执行到最新版本
+ *
+ * 新增 LocalComment 字段时，在这里追加一个迁移为旧数据补齐默认值即可
+ */
+export const MIGRATIONS: StorageMigration[] = [
+    {
+        version: 1,
+        description: '包装为带版本号的存储结构，并将工作区内的绝对路径转换为相对路径',
+        migrate(data: FileComments, context: MigrationContext): Omit<StorageEnvelope, 'archived'> {
+            const comments: FileComments = {};
+            for (const [key, fileComments] of Object.entries(data)) {
+                let storageKey = key;
+                if (context.folderPath && path.isAbsolute(key)) {
+                    const relative = path.relative(context.folderPath, key);
+                    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                        storageKey = relative.split(path.sep).join('/');
+                    }
+                }
+                comments[storageKey] = (comments[storageKey] || []).concat(fileComments);
+            }
+
+            const now = Date.now();
+            return {
+                schemaVersion: 1,
+                project: {
+                    name: context.projectName,
+                    rootPath: context.folderPath,
+                    createdAt: now,
+                    updatedAt: now
+                },
+                comments
+            };
+        }
+    },
+    {
+        version: 2,
+        description: '新增已删除文件的注释归档区',
+        migrate(data: StorageEnvelope): StorageEnvelope {
+            return { ...data, archived: data.archived || {} };
+        }
+    }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 获取存储数据的版本号，没有 schemaVersion 字段的旧数据视为版本 0
+ */
+export function getSchemaVersion(data: any): number {
+    return data && typeof data === 'object' && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+}
+
+/**
+ * 依次执行所有高于数据当前版本的迁移
+ * @returns 迁移后的数据以及实际执行的迁移
+ */
+export function runMigrations(data: any, context: MigrationContext): { data: StorageEnvelope; applied: StorageMigration[] } {
+    const fromVersion = getSchemaVersion(data);
+    const applied: StorageMigration[] = [];
+    let migrated = data;
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version > fromVersion) {
+            migrated = migration.migrate(migrated, context);
+            migrated.schemaVersion = migration.version;
+            applied.push(migration);
+        }
+    }
+
+    return { data: migrated, applied };
+}
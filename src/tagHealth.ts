@@ -0,0 +1,254 @@
+import { CommentManager, ContentEdit } from './commentManager';
+import { TagManager } from './tagManager';
+import { TagProblem, TagSite, analyzeTags, suggestTagNames } from './core/tagHealth';
+import { ParsedTag, formatTagName, isTagDescendant, isValidTagName, rewriteTags } from './core/tagParser';
+
+/**
+ * 对一条注释或回复中标签的修改，previous 为修改前的内容，用于预览和撤销
+ */
+export interface TagContentChange extends ContentEdit {
+    line: number; // 所在注释的行号
+    previous: string;
+}
+
+/**
+ * 标签健康检查：基于 TagManager 的扫描结果列出标签问题，并通过修改注释内容修复
+ */
+export class TagHealth {
+    constructor(private tagManager: TagManager, private commentManager: CommentManager) {}
+
+    public getProblems(): TagProblem[] {
+        const declarations: TagSite[] = this.tagManager.getAllTagDeclarations().map(declaration => ({
+            tagName: declaration.tagName,
+            kind: 'declaration',
+            filePath: declaration.filePath,
+            commentId: declaration.commentId,
+            replyId: declaration.replyId,
+            line: declaration.line,
+            orphaned: declaration.orphaned
+        }));
+        const references: TagSite[] = this.tagManager.getTagReferences().map(reference => ({
+            tagName: reference.tagName,
+            kind: 'reference',
+            filePath: reference.filePath,
+            commentId: reference.commentId,
+            replyId: reference.replyId,
+            line: reference.line,
+            wildcard: reference.wildcard
+        }));
+        return analyzeTags(dedupeSites(declarations), dedupeSites(references));
+    }
+
+    /**
+     * 与未声明标签名相近的已声明标签
+     */
+    public suggestDeclaredTags(tagName: string): string[] {
+        return suggestTagNames(tagName, this.tagManager.getAvailableTagNames());
+    }
+
+    /**
+     * 标签的所有声明与直接引用，重命名时修改的就是这些位置
+     */
+    public getTagSites(tagName: string): TagSite[] {
+        return dedupeSites([
+            ...this.tagManager.getAllTagDeclarations().filter(declaration => declaration.tagName === tagName).map(declaration => ({
+                tagName,
+                kind: 'declaration' as const,
+                filePath: declaration.filePath,
+                commentId: declaration.commentId,
+                replyId: declaration.replyId,
+                line: declaration.line
+            })),
+            ...this.tagManager.getReferencesForTag(tagName).map(reference => ({
+                tagName,
+                kind: 'reference' as const,
+                filePath: reference.filePath,
+                commentId: reference.commentId,
+                replyId: reference.replyId,
+                line: reference.line
+            }))
+        ]);
+    }
+
+    /**
+     * 标签的所有声明与引用，包括上级标签的通配引用（@auth.* 也引用了 auth.session）
+     */
+    public getReferencingSites(tagName: string): TagSite[] {
+        return [...this.getTagSites(tagName), ...this.findWildcardSites(ancestor => isTagDescendant(tagName, ancestor))];
+    }
+
+    /**
+     * 写作 @tagName.* 的通配引用
+     */
+    public getWildcardSites(tagName: string): TagSite[] {
+        return this.findWildcardSites(name => name === tagName);
+    }
+
+    private findWildcardSites(match: (tagName: string) => boolean): TagSite[] {
+        const wildcards: TagSite[] = this.tagManager.getWildcardReferences()
+            .filter(reference => match(reference.tagName))
+            .map(reference => ({
+                tagName: reference.tagName,
+                kind: 'reference',
+                filePath: reference.filePath,
+                commentId: reference.commentId,
+                replyId: reference.replyId,
+                line: reference.line,
+                wildcard: true
+            }));
+        return dedupeSites(wildcards);
+    }
+
+    /**
+     * 通配引用 @tagName.* 指向的所有子标签的声明
+     */
+    public getChildDeclarationSites(tagName: string): TagSite[] {
+        return this.tagManager.getChildTagNames(tagName)
+            .flatMap(child => this.getTagSites(child).filter(site => site.kind === 'declaration'));
+    }
+
+    /**
+     * 被引用但没有声明的标签名，包括没有任何子标签的通配引用
+     */
+    public getUndeclaredReferenceNames(): string[] {
+        return [...new Set(this.getProblems().filter(problem => problem.kind === 'unknownReference').map(problem => problem.tagName))];
+    }
+
+    public isDeclared(tagName: string): boolean {
+        return this.tagManager.getTagDeclaration(tagName) !== undefined;
+    }
+
+    /**
+     * 检查新的标签名，声明改名时不能与已有声明重名
+     * @returns 不可用的原因，可以使用时返回 undefined
+     */
+    public validateNewName(value: string, current: string, isDeclaration: boolean): string | undefined {
+        if (!isValidTagName(value)) {
+            return '标签名只能包含字母、数字和下划线，并且不能以数字开头，多级标签用 . 或 / 分隔';
+        }
+        if (isDeclaration && value !== current && this.isDeclared(value)) {
+            return `标签 $${value} 已经声明，请使用其他名称`;
+        }
+        return undefined;
+    }
+
+    /**
+     * 获取标签所在的注释或回复的内容
+     */
+    public getSiteContent(site: { filePath: string; commentId: string; replyId?: string }): string | undefined {
+        const comment = this.commentManager.getAllComments()[site.filePath]?.find(c => c.id === site.commentId);
+        return site.replyId ? comment?.replies?.find(r => r.id === site.replyId)?.content : comment?.content;
+    }
+
+    /**
+     * 把这些位置上的标签改为新名称，声明仍是声明、引用仍是引用
+     */
+    public renameTag(sites: TagSite[], newName: string): Promise<number | undefined> {
+        return this.rewriteSites(sites, (tag, site) => `${site.kind === 'declaration' ? '$' : '@'}${formatTagName({ name: newName, wildcard: tag.wildcard })}`);
+    }
+
+    /**
+     * 计算重命名会产生的修改而不保存，用于预览
+     * @returns 内容会发生变化的注释或回复；有位置找不到时返回 undefined
+     */
+    public planRename(sites: TagSite[], newName: string): TagContentChange[] | undefined {
+        return this.planRewrite(sites, (tag, site) => `${site.kind === 'declaration' ? '$' : '@'}${formatTagName({ name: newName, wildcard: tag.wildcard })}`);
+    }
+
+    /**
+     * 一次性保存这些修改
+     */
+    public applyChanges(changes: TagContentChange[]): Promise<number | undefined> {
+        return this.commentManager.editContents(changes.map(({ previous, line, ...edit }) => edit));
+    }
+
+    /**
+     * 撤销这些修改，之后又被编辑过的内容保持不变
+     * @returns 撤销的条数与跳过的条数
+     */
+    public async revertChanges(changes: TagContentChange[]): Promise<{ reverted: number; skipped: number }> {
+        const revertible = changes.filter(change => this.getSiteContent(change) === change.content);
+        const reverted = await this.commentManager.editContents(revertible.map(change => ({
+            filePath: change.filePath,
+            commentId: change.commentId,
+            replyId: change.replyId,
+            content: change.previous
+        })));
+        return { reverted: reverted ?? 0, skipped: changes.length - revertible.length };
+    }
+
+    /**
+     * 去掉这些位置上标签的 $ 或 @，只保留文字
+     */
+    public removeTag(sites: TagSite[]): Promise<number | undefined> {
+        return this.rewriteSites(sites, tag => formatTagName(tag));
+    }
+
+    /**
+     * 合并重复声明：保留 keep 处的声明，其余声明改为对它的引用
+     */
+    public mergeDeclarations(sites: TagSite[], keep: TagSite): Promise<number | undefined> {
+        let kept = false;
+        return this.rewriteSites(sites, (tag, site) => {
+            // 同一条内容中重复声明时只保留第一个
+            if (!kept && isSameContent(site, keep)) {
+                kept = true;
+                return undefined;
+            }
+            return `@${tag.name}`;
+        });
+    }
+
+    /**
+     * 在每个位置所在的内容中改写同类型、同名的标签，所有修改一次性保存
+     */
+    private async rewriteSites(sites: TagSite[], replace: (tag: ParsedTag, site: TagSite) => string | undefined): Promise<number | undefined> {
+        const changes = this.planRewrite(sites, replace);
+        return changes ? this.applyChanges(changes) : undefined;
+    }
+
+    /**
+     * 同一条内容中的多个位置依次改写在同一份内容上
+     */
+    private planRewrite(sites: TagSite[], replace: (tag: ParsedTag, site: TagSite) => string | undefined): TagContentChange[] | undefined {
+        const changes = new Map<string, TagContentChange>();
+        for (const site of dedupeSites(sites)) {
+            const key = [site.filePath, site.commentId, site.replyId || ''].join('\n');
+            const change = changes.get(key);
+            const content = change ? change.content : this.getSiteContent(site);
+            if (content === undefined) {
+                return undefined;
+            }
+            const newContent = rewriteTags(content, tag =>
+                tag.kind === site.kind && tag.name === site.tagName && !tag.wildcard === !site.wildcard ? replace(tag, site) : undefined);
+            changes.set(key, {
+                filePath: site.filePath,
+                commentId: site.commentId,
+                replyId: site.replyId,
+                line: site.line,
+                content: newContent,
+                previous: change ? change.previous : content
+            });
+        }
+        return [...changes.values()].filter(change => change.content !== change.previous);
+    }
+}
+
+function isSameContent(a: TagSite, b: TagSite): boolean {
+    return a.filePath === b.filePath && a.commentId === b.commentId && a.replyId === b.replyId;
+}
+
+/**
+ * 同一条内容中多次出现的同一个标签只保留一处，改写时会一并处理
+ */
+function dedupeSites(sites: TagSite[]): TagSite[] {
+    const seen = new Set<string>();
+    return sites.filter(site => {
+        const key = [site.filePath, site.commentId, site.replyId || '', site.kind, site.tagName, site.wildcard ? '*' : ''].join('\n');
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
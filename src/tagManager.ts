@@ -1,11 +1,15 @@
+import * as vscode from 'vscode';
 import { LocalComment } from './commentManager';
+import { isTagDescendant, parseTags } from './core/tagParser';
 
 export interface TagDeclaration {
     tagName: string;
     filePath: string;
     line: number;
     commentId: string;
+    replyId?: string; // 声明位于回复中时为回复 ID
     content: string;
+    orphaned: boolean; // 所在注释无法匹配到代码
 }
 
 export interface TagReference {
@@ -13,58 +17,67 @@ export interface TagReference {
     filePath: string;
     line: number;
     commentId: string;
+    replyId?: string; // 引用位于回复中时为回复 ID
+    wildcard?: boolean; // 通配引用 @标签名.*，引用该标签的所有子标签
     startChar: number;
     endChar: number;
 }
 
 export class TagManager {
     private tagDeclarations: Map<string, TagDeclaration> = new Map();
+    private allDeclarations: TagDeclaration[] = []; // 包括被同名声明覆盖的声明，用于检查重复声明
     private tagReferences: TagReference[] = [];
 
+    private _onDidUpdateTags = new vscode.EventEmitter<void>();
+    readonly onDidUpdateTags: vscode.Event<void> = this._onDidUpdateTags.event;
+
     public updateTags(allComments: { [filePath: string]: LocalComment[] }): void {
         // 清空现有标签
         this.tagDeclarations.clear();
+        this.allDeclarations = [];
         this.tagReferences = [];
 
         // 扫描所有注释，提取标签
         for (const [filePath, comments] of Object.entries(allComments)) {
             for (const comment of comments) {
                 this.extractTagsFromComment(filePath, comment);
+                // 回复中的标签归属于被回复的注释
+                for (const reply of comment.replies || []) {
+                    this.extractTagsFromComment(filePath, comment, reply.content, reply.id);
+                }
             }
         }
+        this._onDidUpdateTags.fire();
     }
 
-    private extractTagsFromComment(filePath: string, comment: LocalComment): void {
-        const content = comment.content;
-
-        // 提取标签声明 ($标签名)
-        const declarationRegex = /\$([a-zA-Z_][a-zA-Z0-9_]*)/g;
-        let match;
-        while ((match = declarationRegex.exec(content)) !== null) {
-            const tagName = match[1];
-            const declaration: TagDeclaration = {
-                tagName,
-                filePath,
-                line: comment.line,
-                commentId: comment.id,
-                content: comment.content
-            };
-            this.tagDeclarations.set(tagName, declaration);
-        }
-
-        // 提取标签引用 (@标签名)
-        const referenceRegex = /\@([a-zA-Z_][a-zA-Z0-9_]*)/g;
-        while ((match = referenceRegex.exec(content)) !== null) {
-            const tagName = match[1];
-            const reference: TagReference = {
-                tagName,
-                filePath,
-                line: comment.line,
-                commentId: comment.id,
-                startChar: match.index,
-                endChar: match.index + match[0].length
-            };
-            this.tagReferences.push(reference);
+    private extractTagsFromComment(filePath: string, comment: LocalComment, content: string = comment.content, replyId?: string): void {
+        for (const tag of parseTags(content)) {
+            if (tag.kind === 'declaration') {
+                // 标签声明 ($标签名)，同名声明以最后一个为准
+                const declaration: TagDeclaration = {
+                    tagName: tag.name,
+                    filePath,
+                    line: comment.line,
+                    commentId: comment.id,
+                    replyId,
+                    content,
+                    orphaned: comment.isMatched === false
+                };
+                this.tagDeclarations.set(tag.name, declaration);
+                this.allDeclarations.push(declaration);
+            } else {
+                // 标签引用 (@标签名)
+                this.tagReferences.push({
+                    tagName: tag.name,
+                    filePath,
+                    line: comment.line,
+                    commentId: comment.id,
+                    replyId,
+                    wildcard: tag.wildcard,
+                    startChar: tag.start,
+                    endChar: tag.end
+                });
+            }
         }
     }
 
@@ -76,12 +89,36 @@ export class TagManager {
         return this.tagReferences;
     }
 
+    /**
+     * 所有标签声明，同名的重复声明也都包含在内
+     */
+    public getAllTagDeclarations(): TagDeclaration[] {
+        return this.allDeclarations;
+    }
+
     public getTagDeclaration(tagName: string): TagDeclaration | undefined {
         return this.tagDeclarations.get(tagName);
     }
 
+    /**
+     * 直接引用该标签的位置，不含通配引用
+     */
     public getReferencesForTag(tagName: string): TagReference[] {
-        return this.tagReferences.filter(ref => ref.tagName === tagName);
+        return this.tagReferences.filter(ref => ref.tagName === tagName && !ref.wildcard);
+    }
+
+    /**
+     * 所有通配引用（@标签名.*）
+     */
+    public getWildcardReferences(): TagReference[] {
+        return this.tagReferences.filter(ref => ref.wildcard);
+    }
+
+    /**
+     * 标签的所有已声明子标签
+     */
+    public getChildTagNames(tagName: string): string[] {
+        return this.getAvailableTagNames().filter(name => isTagDescendant(name, tagName));
     }
 
     public getAvailableTagNames(): string[] {
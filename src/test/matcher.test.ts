@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnchorMatcher, AnchoredComment, LineSource, captureContext, captureRangeContent, createLineSource } from '../core/matcher';
+import { MatcherSettings, resolveMatcherOptions } from '../core/matcherSettings';
+
+/**
+ * 匹配回归用例：每个用例是 fixtures/matcher 下的一个目录
+ *
+ * - before.txt  添加注释时的文件内容
+ * - after.txt   修改后的文件内容
+ * - case.json   { description, languageId?, settings?, comments: [{ line, endLine?, expected, candidate? }] }
+ *
+ * 行号从 1 开始。注释按 before.txt 中的位置记录快照（与插件添加注释时相同），
+ * 在 after.txt 中批量匹配后应位于 expected 行，expected 为 null 表示应被隐藏；
+ * candidate 为重新定位时排在第一位的候选行
+ */
+interface FixtureComment {
+    line: number;
+    endLine?: number; // 范围注释的最后一行
+    expected: number | null;
+    candidate?: number;
+}
+
+interface Fixture {
+    description: string;
+    languageId?: string;
+    settings?: MatcherSettings;
+    comments: FixtureComment[];
+}
+
+// 编译后位于 out/test，用例保留在源码目录中
+const FIXTURES_DIR = path.resolve(__dirname, '../../src/test/fixtures/matcher');
+
+/**
+ * 与插件添加注释时一样记录代码快照与上下文
+ */
+function createComment(source: LineSource, fixture: FixtureComment, index: number): AnchoredComment {
+    const line = fixture.line - 1;
+    const endLine = (fixture.endLine ?? fixture.line) - 1;
+    return {
+        id: `comment-${index}`,
+        line,
+        timestamp: index,
+        lineContent: source.lineAt(line).text.trim(),
+        rangeContent: fixture.endLine !== undefined ? captureRangeContent(source, line, endLine) : undefined,
+        ...captureContext(source, line, endLine)
+    };
+}
+
+for (const name of fs.readdirSync(FIXTURES_DIR).sort()) {
+    const dir = path.join(FIXTURES_DIR, name);
+    if (!fs.statSync(dir).isDirectory()) {
+        continue;
+    }
+    const fixture: Fixture = JSON.parse(fs.readFileSync(path.join(dir, 'case.json'), 'utf8'));
+
+    test(`${name}: ${fixture.description}`, () => {
+        const before = createLineSource(fs.readFileSync(path.join(dir, 'before.txt'), 'utf8'), fixture.languageId);
+        const after = createLineSource(fs.readFileSync(path.join(dir, 'after.txt'), 'utf8'), fixture.languageId);
+        const options = resolveMatcherOptions(fixture.settings);
+        const matcher = new AnchorMatcher(() => options);
+        const comments = fixture.comments.map((comment, index) => createComment(before, comment, index));
+
+        const results = matcher.batchMatchComments(after, comments);
+        fixture.comments.forEach((expectation, index) => {
+            const comment = comments[index];
+            const matchedLine = results.get(comment.id) ?? -1;
+            const trace = matcher.explainMatch(after, comments, comment.id);
+            assert.strictEqual(
+                matchedLine === -1 ? null : matchedLine + 1,
+                expectation.expected,
+                `原第 ${expectation.line} 行的注释: ${trace.outcome}`
+            );
+
+            if (expectation.candidate !== undefined) {
+                const [best] = matcher.rankCandidates(after, comment, 1);
+                assert.strictEqual(best ? best.line + 1 : null, expectation.candidate, `原第 ${expectation.line} 行的注释的候选位置`);
+            }
+        });
+    });
+}
+
+test('增量匹配只重新计算受影响的注释，结果与全量匹配一致', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `const value${i} = compute(${i});`);
+    const before = createLineSource(lines);
+    const matcher = new AnchorMatcher(() => resolveMatcherOptions());
+    const comments = [3, 12, 25, 33].map((line, index) => createComment(before, { line: line + 1, expected: null }, index));
+    const previous = matcher.batchMatchComments(before, comments);
+
+    // 在第 20 行之前插入一行：之后的注释随编辑下移，只有第 25 行的注释被标记为受影响
+    const after = createLineSource([...lines.slice(0, 20), '// 新增的一行', ...lines.slice(20)]);
+    comments[3].line = 34;
+    const shifted = new Map(previous);
+    shifted.set(comments[3].id, 34);
+    const results = matcher.rematchComments(after, comments, shifted, new Set([comments[2].id]));
+
+    assert.deepStrictEqual([...results.entries()].sort(), [...matcher.batchMatchComments(after, comments).entries()].sort());
+    assert.strictEqual(results.get(comments[2].id), 26);
+});
+
+test('大文件中批量匹配大量注释在时间预算内完成', () => {
+    // 每行都有独立的特征，注释分布在整个文件中，文件开头插入代码后全部下移
+    const lines = Array.from({ length: 20000 }, (_, i) => `    const item${i} = transform(source[${i}], options.step${i % 97});`);
+    const before = createLineSource(lines);
+    const matcher = new AnchorMatcher(() => resolveMatcherOptions());
+    const comments = Array.from({ length: 1000 }, (_, index) => createComment(before, { line: index * 20 + 1, expected: null }, index));
+    const after = createLineSource([...Array.from({ length: 2 }, (_, i) => `import { helper${i} } from './helper${i}';`), ...lines]);
+
+    const start = Date.now();
+    const results = matcher.batchMatchComments(after, comments);
+    const elapsed = Date.now() - start;
+
+    comments.forEach(comment => assert.strictEqual(results.get(comment.id), comment.line + 2));
+    assert.ok(elapsed < 2000, `匹配 ${comments.length} 条注释耗时 ${elapsed}ms`);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { TagSite, analyzeTags, suggestTagNames } from '../core/tagHealth';
+
+function site(kind: TagSite['kind'], tagName: string, commentId: string, orphaned?: boolean): TagSite {
+    return { kind, tagName, filePath: '/project/a.ts', commentId, line: 0, orphaned };
+}
+
+test('找出重复声明、未声明的引用、未被引用的声明和所在注释无法匹配的声明', () => {
+    const declarations = [
+        site('declaration', 'auth', 'c1'),
+        site('declaration', 'auth', 'c2'),
+        site('declaration', 'cache', 'c3'),
+        site('declaration', 'legacy', 'c4', true)
+    ];
+    const references = [
+        site('reference', 'auth', 'c5'),
+        site('reference', 'legacy', 'c5'),
+        site('reference', 'sesion', 'c6'),
+        site('reference', 'sesion', 'c7')
+    ];
+
+    const problems = analyzeTags(declarations, references);
+    assert.deepStrictEqual(problems.map(problem => [problem.kind, problem.tagName, problem.sites.map(s => s.commentId)]), [
+        ['duplicateDeclaration', 'auth', ['c1', 'c2']],
+        ['unknownReference', 'sesion', ['c6', 'c7']],
+        ['orphanedDeclaration', 'legacy', ['c4']],
+        ['unusedDeclaration', 'cache', ['c3']]
+    ]);
+});
+
+test('没有问题时返回空列表', () => {
+    assert.deepStrictEqual(analyzeTags([site('declaration', 'auth', 'c1')], [site('reference', 'auth', 'c2')]), []);
+});
+
+test('通配引用引用了所有子标签，没有子标签时报告为未声明', () => {
+    const declarations = [
+        site('declaration', 'auth', 'c1'),
+        site('declaration', 'auth.session', 'c2'),
+        site('declaration', 'auth.session.refresh', 'c3')
+    ];
+    const references = [
+        { ...site('reference', 'auth', 'c4'), wildcard: true },
+        { ...site('reference', 'cache', 'c5'), wildcard: true }
+    ];
+
+    const problems = analyzeTags(declarations, references);
+    assert.deepStrictEqual(problems.map(problem => [problem.kind, problem.tagName, problem.wildcard]), [
+        ['unknownReference', 'cache', true],
+        ['unusedDeclaration', 'auth', undefined]
+    ]);
+});
+
+test('按相似程度推荐已声明的标签', () => {
+    assert.deepStrictEqual(suggestTagNames('sesion', ['session', 'cache', 'Sesion', 'session_store']), ['Sesion', 'session']);
+    assert.deepStrictEqual(suggestTagNames('auth', ['cache', 'database']), []);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { collectTags, findTagAt, findTagParseChanges, formatTagName, getTagCompletions, getTagPrefixBeforeCursor, isTagNamePrefix, isValidTagName, parseTags, rewriteTags } from '../core/tagParser';
+
+test('按出现顺序提取标签声明与引用', () => {
+    const tags = parseTags('$auth 登录流程，参见 @session 和 @token_store');
+    assert.deepStrictEqual(tags.map(tag => [tag.kind, tag.name, tag.start, tag.end]), [
+        ['declaration', 'auth', 0, 5],
+        ['reference', 'session', 14, 22],
+        ['reference', 'token_store', 25, 37]
+    ]);
+});
+
+test('标签名不能以数字开头', () => {
+    assert.deepStrictEqual(parseTags('价格 $100 与 @2fa').map(tag => tag.text), []);
+});
+
+test('查找位置所在的标签，包括标签末尾', () => {
+    const content = '见 @cache 的说明';
+    assert.strictEqual(findTagAt(content, 2)?.name, 'cache');
+    assert.strictEqual(findTagAt(content, 8)?.name, 'cache');
+    assert.strictEqual(findTagAt(content, 9), undefined);
+    assert.strictEqual(findTagAt(content, 4, 'declaration'), undefined);
+});
+
+test('列出同一行多条注释中的所有标签，重复的标签只保留第一处', () => {
+    const comments = [
+        { id: 'a', content: '$auth 登录流程，参见 @session 和 @auth.*' },
+        { id: 'b', content: '@session 过期后回到 $auth 重新登录 @cache' }
+    ];
+    assert.deepStrictEqual(collectTags(comments).map(({ tag, comment }) => [tag.text, comment.id]), [
+        ['$auth', 'a'],
+        ['@session', 'a'],
+        ['@auth.*', 'a'],
+        ['@cache', 'b']
+    ]);
+    assert.deepStrictEqual(collectTags(comments, 'reference').map(({ tag }) => tag.text), ['@session', '@auth.*', '@cache']);
+});
+
+test('光标前正在输入的标签引用', () => {
+    assert.strictEqual(getTagPrefixBeforeCursor('参见 @'), '');
+    assert.strictEqual(getTagPrefixBeforeCursor('参见 @ses'), 'ses');
+    assert.strictEqual(getTagPrefixBeforeCursor('参见 @session 的'), undefined);
+    assert.strictEqual(getTagPrefixBeforeCursor('没有引用'), undefined);
+});
+
+test('标签名支持中文等 Unicode 字母和数字', () => {
+    assert.deepStrictEqual(parseTags('$用户登录 流程，参见 @café_2 与 @ユーザー。').map(tag => tag.name), ['用户登录', 'café_2', 'ユーザー']);
+    assert.strictEqual(getTagPrefixBeforeCursor('参见 @用户'), '用户');
+    assert.strictEqual(isTagNamePrefix('用户登录'), true);
+    assert.strictEqual(isTagNamePrefix(''), true);
+    assert.strictEqual(isTagNamePrefix('用户 登录'), false);
+});
+
+test('找出与旧版本 ASCII 规则解析结果不同的标签', () => {
+    assert.deepStrictEqual(findTagParseChanges('$用户登录 与 @session的说明，以及 @token 不变'), [
+        { kind: 'declaration', start: 0, previous: undefined, current: '用户登录' },
+        { kind: 'reference', start: 8, previous: 'session', current: 'session的说明' }
+    ]);
+    assert.deepStrictEqual(findTagParseChanges('$auth 登录流程，参见 @session'), []);
+});
+
+test('改写指定的标签，其余内容保持不变', () => {
+    const content = '$auth 登录，参见 @auth 和 @token';
+    assert.strictEqual(rewriteTags(content, tag => tag.name === 'auth' ? `${tag.text[0]}login` : undefined), '$login 登录，参见 @login 和 @token');
+    assert.strictEqual(rewriteTags(content, tag => tag.kind === 'reference' ? tag.name : undefined), '$auth 登录，参见 auth 和 token');
+});
+
+test('层级标签统一以 . 分隔，通配只用于引用', () => {
+    const tags = parseTags('$auth/session.refresh 见 @auth.* 和 @auth.session。句末的 @auth. 与 $auth.*');
+    assert.deepStrictEqual(tags.map(tag => [tag.kind, formatTagName(tag), tag.text]), [
+        ['declaration', 'auth.session.refresh', '$auth/session.refresh'],
+        ['reference', 'auth.*', '@auth.*'],
+        ['reference', 'auth.session', '@auth.session'],
+        ['reference', 'auth', '@auth'],
+        ['declaration', 'auth', '$auth']
+    ]);
+    assert.strictEqual(isValidTagName('auth.session'), true);
+    assert.strictEqual(isValidTagName('auth.'), false);
+    assert.strictEqual(isTagNamePrefix('auth.'), true);
+    assert.strictEqual(getTagPrefixBeforeCursor('参见 @auth.se'), 'auth.se');
+});
+
+test('标签补全逐级展开', () => {
+    const names = ['auth', 'auth.session', 'auth.session.refresh', 'auth.token', 'cache'];
+    const summarize = (prefix: string) => getTagCompletions(prefix, names).map(item => `${item.kind}:${item.insertText}:${item.childCount}`);
+
+    assert.deepStrictEqual(summarize(''), ['tag:auth:3', 'namespace:auth.:3', 'tag:cache:0']);
+    assert.deepStrictEqual(summarize('auth.'), ['wildcard:auth.*:3', 'tag:auth.session:1', 'namespace:auth.session.:1', 'tag:auth.token:0']);
+    assert.deepStrictEqual(summarize('auth/se'), ['tag:auth.session:1', 'namespace:auth.session.:1']);
+    assert.deepStrictEqual(summarize('x.'), []);
+});
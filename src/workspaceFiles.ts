@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { LocalComment } from './commentManager';
+import { LineSource, createLineSource } from './commentMatcher';
+import { guessLanguageId } from './core/lineNormalizer';
+
+const MAX_WORKSPACE_FILES = 5000;
+
+/**
+ * 跨文件查找时单个文件的大小上限，超过的文件直接跳过
+ */
+export function getMaxFileSize(): number {
+    return vscode.workspace.getConfiguration('localComment').get<number>('relocation.maxFileSizeKB', 1024) * 1024;
+}
+
+/**
+ * 列出工作区中参与跨文件查找的文件，排除依赖目录以及 files.exclude、search.exclude 中的文件，
+ * 避免数量上限被依赖文件占满
+ */
+export async function findWorkspaceFiles(token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+    return vscode.workspace.findFiles('**/*', getExcludePattern(), MAX_WORKSPACE_FILES, token);
+}
+
+/**
+ * 传入排除模式后 findFiles 不再自动应用 files.exclude，这里与 search.exclude 一起合并为一个模式
+ */
+function getExcludePattern(): string {
+    const patterns = new Set(['**/node_modules/**']);
+    for (const section of ['files', 'search']) {
+        const excludes = vscode.workspace.getConfiguration(section).get<Record<string, unknown>>('exclude', {});
+        for (const [pattern, enabled] of Object.entries(excludes)) {
+            // 带条件的排除项（{ when: ... }）无法合并，花括号也不能嵌套在合并后的模式中
+            if (enabled === true && !/[{},]/.test(pattern)) {
+                patterns.add(pattern);
+            }
+        }
+    }
+    return `{${[...patterns].join(',')}}`;
+}
+
+/**
+ * 读取候选文件，跳过过大的文件、二进制文件以及不包含任何关键字的文件
+ */
+export function readFileSource(filePath: string, keywords: string[] = []): LineSource | undefined {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+    let content: string;
+    try {
+        if (document) {
+            content = document.getText();
+        } else {
+            if (fs.statSync(filePath).size > getMaxFileSize()) {
+                return undefined;
+            }
+            content = fs.readFileSync(filePath, 'utf8');
+        }
+    } catch {
+        return undefined;
+    }
+
+    if (content.includes('\0') || (keywords.length > 0 && !keywords.some(keyword => content.includes(keyword)))) {
+        return undefined;
+    }
+    return document || createLineSource(content, guessLanguageId(filePath));
+}
+
+/**
+ * 从代码快照中取最长的几个标识符，用于快速排除明显无关的文件
+ */
+export function getSearchKeywords(comment: LocalComment): string[] {
+    const anchor = comment.rangeContent && comment.rangeContent.length > 0 ? comment.rangeContent.join(' ') : comment.lineContent || '';
+    const identifiers = new Set(anchor.match(/[A-Za-z_][A-Za-z0-9_]{2,}/g) || []);
+    return [...identifiers].sort((a, b) => b.length - a.length).slice(0, 3);
+}